@@ -1,82 +1,254 @@
-import React, { useState, useRef } from 'react';
-import { analyzeGeometryProblem } from './services/geminiService';
-import { GeometryResponse } from './types';
+import React, { useState, useRef, useEffect } from 'react';
+import { analyzeWithCache } from './services/analysisCache';
+import { ProviderKind, resolveProvider, DEFAULT_LOCAL_BASE_URL } from './services/modelProviders';
+import { GeometryResponse, GradeLevel } from './types';
 import { ResultDisplay } from './components/ResultDisplay';
+import { ErrorPanel } from './components/ErrorPanel';
+import { ProblemLibrary } from './components/ProblemLibrary';
+import { ImageCropper } from './components/ImageCropper';
+import { AnalysisError, toAnalysisError } from './services/analysisErrors';
+import { ProcessedImage, CropRect, MAX_IMAGES, processImageFile, cropImage, rotateImageClockwise, toDataUrl, makeThumbnail } from './services/imagePipeline';
+import { LibraryEntry, newLibraryId, saveLibraryEntry } from './services/problemLibrary';
+import { GeosolverFile, parseGeosolverFile, GEOSOLVER_EXTENSION } from './services/geosolverFile';
+import { GRADE_LEVELS } from './services/curriculumChecker';
+import { readShareFragment } from './services/shareLink';
 
 const App: React.FC = () => {
     // App State
     const [prompt, setPrompt] = useState<string>('');
-    const [image, setImage] = useState<string | null>(null);
+    const [images, setImages] = useState<ProcessedImage[]>([]);
+    const [processingImages, setProcessingImages] = useState<boolean>(false);
+    const [imageError, setImageError] = useState<string | null>(null);
+    const [croppingId, setCroppingId] = useState<string | null>(null); // Ảnh đang mở khung cắt
     const [apiKey, setApiKey] = useState<string>(''); // NEW: Quản lý Key người dùng nhập
+    const [providerKind, setProviderKind] = useState<ProviderKind>('gemini');
+    const [localBaseUrl, setLocalBaseUrl] = useState<string>(DEFAULT_LOCAL_BASE_URL);
+    const [localModel, setLocalModel] = useState<string>('llama3.2-vision');
     const [loading, setLoading] = useState<boolean>(false);
     const [result, setResult] = useState<GeometryResponse | null>(null);
-    const [error, setError] = useState<string | null>(null);
+    const [partial, setPartial] = useState<GeometryResponse | null>(null); // Kết quả từng phần khi đang stream
+    const [error, setError] = useState<AnalysisError | null>(null);
+    const [grade, setGrade] = useState<GradeLevel | undefined>(undefined); // Lớp của học sinh (chưa chọn = không giới hạn)
+    const [forceRefresh, setForceRefresh] = useState<boolean>(false); // Bỏ qua kết quả đã lưu
+    const [cachedAt, setCachedAt] = useState<number | null>(null);
+    const [lastFeedback, setLastFeedback] = useState<string | undefined>(undefined);
+    const [libraryEntry, setLibraryEntry] = useState<LibraryEntry | null>(null); // Mục trong thư viện của bài đang xem
+    const [openedFromLibrary, setOpenedFromLibrary] = useState<boolean>(false);
+    const [sharedBranchId, setSharedBranchId] = useState<string | undefined>(undefined); // Hướng giải được chọn trong link chia sẻ
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const abortRef = useRef<AbortController | null>(null); // Yêu cầu phân tích đang chạy
 
-    const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                const base64String = reader.result as string;
-                const base64Data = base64String.split(',')[1];
-                setImage(base64Data);
-            };
-            reader.readAsDataURL(file);
+    const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+        if (files.length === 0) return;
+
+        const room = MAX_IMAGES - images.length;
+        setImageError(files.length > room ? `Chỉ đính kèm tối đa ${MAX_IMAGES} ảnh.` : null);
+        setProcessingImages(true);
+
+        const processed: ProcessedImage[] = [];
+        for (const file of files.slice(0, Math.max(0, room))) {
+            try {
+                processed.push(await processImageFile(file));
+            } catch (err: any) {
+                setImageError(err.message);
+            }
         }
+        setImages(prev => [...prev, ...processed]);
+        setProcessingImages(false);
     };
 
-    const handleRemoveImage = () => {
-        setImage(null);
+    const handleRemoveImage = (id: string) => {
+        setImages(prev => prev.filter(img => img.id !== id));
+    };
+
+    const handleRemoveAllImages = () => {
+        setImages([]);
+        setImageError(null);
         if (fileInputRef.current) fileInputRef.current.value = '';
     };
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!prompt && !image) {
-            setError("Vui lòng nhập đề bài hoặc tải lên ảnh bài toán.");
-            return;
+    // Thay ảnh đã xử lý (xoay / cắt) tại đúng vị trí
+    const updateImage = async (id: string, transform: (img: ProcessedImage) => Promise<ProcessedImage>) => {
+        const target = images.find(img => img.id === id);
+        if (!target) return;
+        setProcessingImages(true);
+        try {
+            const updated = await transform(target);
+            setImages(prev => prev.map(img => img.id === id ? updated : img));
+        } catch (err: any) {
+            setImageError(err.message);
+        } finally {
+            setProcessingImages(false);
         }
+    };
 
-        setLoading(true);
-        setError(null);
+    const handleCrop = (rect: CropRect) => {
+        if (croppingId) updateImage(croppingId, img => cropImage(img, rect));
+        setCroppingId(null);
+    };
 
+    const getProvider = () => resolveProvider({ kind: providerKind, apiKey, localBaseUrl, localModel });
+
+    // Chỉ chuyển sang màn kết quả khi đã nhận được GT/KL hoặc ít nhất một hướng giải
+    const handlePartial = (p: GeometryResponse) => {
+        if (p.hypothesis.length > 0 || p.conclusion || p.branches.length > 0) {
+            setPartial(p);
+        }
+    };
+
+    // Lưu kết quả vào thư viện bài đã giải (chỉnh sửa / phân tích lại thì cập nhật mục cũ).
+    // Lỗi IndexedDB không làm hỏng việc phân tích, chỉ ghi cảnh báo.
+    const saveToLibrary = async (data: GeometryResponse, feedback: string | undefined) => {
+        const now = Date.now();
+        let entry: LibraryEntry;
+        if (libraryEntry) {
+            const isNewFeedback = feedback && feedback !== libraryEntry.refinements[libraryEntry.refinements.length - 1];
+            entry = { ...libraryEntry, data, refinements: isNewFeedback ? [...libraryEntry.refinements, feedback] : libraryEntry.refinements, updatedAt: now };
+        } else {
+            const thumbnail = images[0] ? await makeThumbnail(images[0]).catch(() => undefined) : undefined;
+            entry = { id: newLibraryId(), prompt, thumbnail, data, refinements: feedback ? [feedback] : [], grade, createdAt: now, updatedAt: now, pinned: false };
+        }
+        setLibraryEntry(entry);
         try {
-            // Truyền apiKey vào service
-            const data = await analyzeGeometryProblem(prompt, image || undefined, undefined, apiKey);
-            setResult(data);
-        } catch (err: any) {
-            console.error(err);
-            setError(err.message || "Có lỗi xảy ra khi phân tích bài toán.");
-        } finally {
-            setLoading(false);
+            await saveLibraryEntry(entry);
+        } catch (e: any) {
+            console.warn('[GeoSolver] Library write failed:', e?.message);
         }
     };
 
-    const handleRefine = async (feedback: string) => {
-        if (!feedback) return;
+    // Chạy phân tích (lần đầu, chỉnh sửa hoặc phân tích lại). Yêu cầu cũ đang chạy sẽ bị hủy.
+    const runAnalysis = async (feedback: string | undefined, refresh: boolean) => {
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+
         setLoading(true);
         setError(null);
-        
+
         try {
-             // Truyền apiKey khi refine
-            const data = await analyzeGeometryProblem(prompt, image || undefined, feedback, apiKey);
+            // Truyền apiKey + provider đang chọn vào service (qua bộ nhớ đệm)
+            const { data, cachedAt } = await analyzeWithCache(prompt, images, feedback, apiKey, {
+                provider: getProvider(),
+                onPartial: handlePartial,
+                forceRefresh: refresh,
+                signal: controller.signal,
+                grade
+            });
             setResult(data);
+            setCachedAt(cachedAt);
+            setLastFeedback(feedback);
+            setOpenedFromLibrary(false);
+            setSharedBranchId(undefined);
+            await saveToLibrary(data, feedback);
         } catch (err: any) {
-             console.error(err);
-             setError(err.message || "Có lỗi xảy ra khi cập nhật sơ đồ.");
+            const analysisError = toAnalysisError(err);
+            if (analysisError.kind !== 'cancelled') {
+                console.error(err);
+                setError(analysisError);
+            }
         } finally {
-            setLoading(false);
+            if (abortRef.current === controller) {
+                abortRef.current = null;
+                setPartial(null);
+                setLoading(false);
+            }
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!prompt && images.length === 0) {
+            setError(new AnalysisError('input', "Vui lòng nhập đề bài hoặc tải lên ảnh bài toán."));
+            return;
         }
+        await runAnalysis(undefined, forceRefresh);
+    };
+
+    const handleRefine = async (feedback: string) => {
+        if (!feedback) return;
+        await runAnalysis(feedback, false);
+    };
+
+    // Gọi lại model cho đúng đề + gợi ý hiện tại, bỏ qua bộ nhớ đệm
+    const handleReanalyze = () => runAnalysis(lastFeedback, true);
+
+    const handleCancel = () => {
+        abortRef.current?.abort();
     };
 
     const handleReset = () => {
+        handleCancel();
         setResult(null);
+        setPartial(null);
+        setCachedAt(null);
+        setLastFeedback(undefined);
+        setLibraryEntry(null);
+        setOpenedFromLibrary(false);
+        setSharedBranchId(undefined);
         setPrompt('');
-        handleRemoveImage();
+        handleRemoveAllImages();
+        setError(null);
+    };
+
+    // Mở bài đã lưu: hiện ngay kết quả, không gọi model. Ảnh gốc không được lưu (chỉ có ảnh thu nhỏ).
+    const handleOpenSaved = (entry: LibraryEntry) => {
+        handleCancel();
+        handleRemoveAllImages();
+        setPrompt(entry.prompt);
+        setGrade(entry.grade);
+        setResult(entry.data);
+        setPartial(null);
+        setCachedAt(null);
         setError(null);
+        setLastFeedback(entry.refinements[entry.refinements.length - 1]);
+        setLibraryEntry(entry);
+        setOpenedFromLibrary(true);
+        setSharedBranchId(undefined);
+    };
+
+    // Bài nhận từ người khác (tệp hoặc link): mở như bài đã lưu và thêm vào thư viện
+    const openReceived = async (imported: GeosolverFile, branchId?: string) => {
+        const now = Date.now();
+        const entry: LibraryEntry = {
+            id: newLibraryId(), prompt: imported.problem, data: imported.analysis, refinements: [],
+            grade: imported.analysis.grade, createdAt: now, updatedAt: now, pinned: false
+        };
+        handleOpenSaved(entry);
+        setOpenedFromLibrary(false);
+        setSharedBranchId(branchId);
+        await saveLibraryEntry(entry).catch((e: any) => console.warn('[GeoSolver] Library write failed:', e?.message));
     };
 
+    // Nhập tệp .geosolver (ví dụ giáo viên gửi)
+    const handleImportFile = async (file: File) => {
+        try {
+            await openReceived(parseGeosolverFile(await file.text()));
+        } catch (err: any) {
+            setError(toAnalysisError(err));
+        }
+    };
+
+    // Mở link chia sẻ (#share=...): hiện kết quả ngay, không cần API key
+    useEffect(() => {
+        const hash = window.location.hash;
+        if (!hash) return;
+        // Bỏ phần # ngay (trước khi giải mã) để tải lại trang, bấm "bài mới" hay effect chạy lại
+        // (StrictMode) không mở lại link và lưu trùng vào thư viện
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        readShareFragment(hash)
+            .then(async shared => {
+                if (shared) await openReceived(shared.file, shared.branchId);
+            })
+            .catch((err: any) => setError(toAnalysisError(err)));
+    }, []);
+
+    // Bài chỉ có ảnh mở từ thư viện thì không còn đề để gửi lại cho model
+    const canRerun = !!prompt.trim() || images.length > 0;
+
+    const shownResult = partial || result;
+
     // --- RENDER: MAIN APP ---
     return (
         <div className="min-h-screen flex flex-col font-sans text-gray-900 bg-gradient-to-br from-indigo-50/50 via-white/80 to-blue-50/50">
@@ -102,7 +274,7 @@ const App: React.FC = () => {
 
             {/* Main Content */}
             <main className="flex-grow p-4 md:p-8">
-                {!result ? (
+                {!shownResult ? (
                     <div className="max-w-2xl mx-auto mt-8 md:mt-16 animate-fade-in-up">
                         <div className="text-center mb-12">
                             <h2 className="text-3xl md:text-4xl font-extrabold text-gray-900 mb-4 tracking-tight">
@@ -116,34 +288,111 @@ const App: React.FC = () => {
                         <div className="bg-white/80 backdrop-blur-sm p-6 md:p-8 rounded-3xl shadow-xl shadow-indigo-100 border border-white">
                             <form onSubmit={handleSubmit} className="space-y-6">
                                 
-                                {/* --- NEW: API KEY INPUT --- */}
+                                {/* --- MODEL PROVIDER --- */}
                                 <div className="space-y-2">
-                                    <label htmlFor="apiKey" className="block text-sm font-bold text-gray-700 ml-1 flex items-center gap-2">
-                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-indigo-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
-                                        </svg>
-                                        Gemini API Key <span className="text-gray-400 font-normal">(Tùy chọn)</span>
-                                    </label>
-                                    <div className="relative">
-                                        <input
-                                            id="apiKey"
-                                            type="password"
-                                            className="w-full px-5 py-3 rounded-2xl bg-white border border-gray-200 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-500/10 transition-all text-gray-800 placeholder-gray-400 outline-none text-sm"
-                                            placeholder="Nhập khóa API của bạn để sử dụng (AIza...)"
-                                            value={apiKey}
-                                            onChange={(e) => setApiKey(e.target.value)}
-                                            autoComplete="off"
-                                        />
-                                        <div className="absolute right-3 top-3 text-xs text-gray-400 pointer-events-none bg-white pl-2">
-                                            🔒 Bảo mật
-                                        </div>
+                                    <label className="block text-sm font-bold text-gray-700 ml-1">Nguồn phân tích</label>
+                                    <div className="flex gap-2 bg-gray-100 p-1 rounded-xl">
+                                        {([
+                                            ['gemini', 'Gemini'],
+                                            ['local', 'Máy chủ cục bộ'],
+                                            ['fixture', 'Dữ liệu mẫu']
+                                        ] as [ProviderKind, string][]).map(([kind, label]) => (
+                                            <button
+                                                key={kind}
+                                                type="button"
+                                                onClick={() => setProviderKind(kind)}
+                                                className={`flex-1 py-2 px-3 rounded-lg text-xs md:text-sm font-bold transition-all ${providerKind === kind ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
                                     </div>
-                                    <p className="text-xs text-gray-500 ml-1">
-                                        Nếu bỏ trống, hệ thống sẽ sử dụng key mặc định (nếu có). Key của bạn không được lưu trữ.
-                                    </p>
+                                    {providerKind === 'fixture' && (
+                                        <p className="text-xs text-gray-500 ml-1">
+                                            Phát lại bài giải mẫu đã ghi sẵn, không gọi mạng. Dùng để thử giao diện khi offline.
+                                        </p>
+                                    )}
                                 </div>
+
+                                {/* --- NEW: API KEY INPUT --- */}
+                                {providerKind === 'gemini' && (
+                                    <div className="space-y-2">
+                                        <label htmlFor="apiKey" className="block text-sm font-bold text-gray-700 ml-1 flex items-center gap-2">
+                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-indigo-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                                            </svg>
+                                            Gemini API Key <span className="text-gray-400 font-normal">(Tùy chọn)</span>
+                                        </label>
+                                        <div className="relative">
+                                            <input
+                                                id="apiKey"
+                                                type="password"
+                                                className="w-full px-5 py-3 rounded-2xl bg-white border border-gray-200 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-500/10 transition-all text-gray-800 placeholder-gray-400 outline-none text-sm"
+                                                placeholder="Nhập khóa API của bạn để sử dụng (AIza...)"
+                                                value={apiKey}
+                                                onChange={(e) => setApiKey(e.target.value)}
+                                                autoComplete="off"
+                                            />
+                                            <div className="absolute right-3 top-3 text-xs text-gray-400 pointer-events-none bg-white pl-2">
+                                                🔒 Bảo mật
+                                            </div>
+                                        </div>
+                                        <p className="text-xs text-gray-500 ml-1">
+                                            Nếu bỏ trống, hệ thống sẽ sử dụng key mặc định (nếu có). Key của bạn không được lưu trữ.
+                                        </p>
+                                    </div>
+                                )}
+
+                                {providerKind === 'local' && (
+                                    <div className="grid md:grid-cols-2 gap-3">
+                                        <div className="space-y-1">
+                                            <label htmlFor="localBaseUrl" className="block text-xs font-bold text-gray-600 ml-1">Địa chỉ (OpenAI-compatible)</label>
+                                            <input
+                                                id="localBaseUrl"
+                                                type="text"
+                                                className="w-full px-4 py-2.5 rounded-2xl bg-white border border-gray-200 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-500/10 transition-all text-gray-800 outline-none text-sm"
+                                                value={localBaseUrl}
+                                                onChange={(e) => setLocalBaseUrl(e.target.value)}
+                                                autoComplete="off"
+                                            />
+                                        </div>
+                                        <div className="space-y-1">
+                                            <label htmlFor="localModel" className="block text-xs font-bold text-gray-600 ml-1">Tên model</label>
+                                            <input
+                                                id="localModel"
+                                                type="text"
+                                                className="w-full px-4 py-2.5 rounded-2xl bg-white border border-gray-200 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-500/10 transition-all text-gray-800 outline-none text-sm"
+                                                value={localModel}
+                                                onChange={(e) => setLocalModel(e.target.value)}
+                                                autoComplete="off"
+                                            />
+                                        </div>
+                                    </div>
+                                )}
                                 {/* --- END API KEY INPUT --- */}
 
+                                {/* --- GRADE --- */}
+                                <div className="space-y-2 border-t border-gray-100 pt-4">
+                                    <label className="block text-sm font-bold text-gray-700 ml-1">Học sinh lớp</label>
+                                    <div className="flex gap-2 bg-gray-100 p-1 rounded-xl">
+                                        {([undefined, ...GRADE_LEVELS] as (GradeLevel | undefined)[]).map(g => (
+                                            <button
+                                                key={g ?? 'any'}
+                                                type="button"
+                                                onClick={() => setGrade(g)}
+                                                className={`flex-1 py-2 px-3 rounded-lg text-xs md:text-sm font-bold transition-all ${grade === g ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                                            >
+                                                {g ? `Lớp ${g}` : 'Chưa chọn'}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    {grade && (
+                                        <p className="text-xs text-gray-500 ml-1">
+                                            Chỉ dùng kiến thức đến lớp {grade}. Bước nào dùng kiến thức lớp trên sẽ được đánh dấu.
+                                        </p>
+                                    )}
+                                </div>
+
                                 <div className="space-y-2 border-t border-gray-100 pt-4">
                                     <label htmlFor="problem" className="block text-sm font-bold text-gray-700 ml-1">
                                         Đề bài toán học
@@ -167,56 +416,101 @@ const App: React.FC = () => {
                                     <label className="block text-sm font-bold text-gray-700 ml-1">
                                         Hình ảnh đính kèm
                                     </label>
-                                    {!image ? (
+                                    {images.length > 0 && (
+                                        <div className="grid grid-cols-2 gap-3">
+                                            {images.map((img, idx) => (
+                                                <div key={img.id} className="relative rounded-2xl overflow-hidden border border-gray-200 bg-gray-50 group">
+                                                    <img src={toDataUrl(img)} alt={img.name} className="w-full h-40 object-contain p-2" />
+                                                    <span className="absolute bottom-2 left-2 text-[10px] font-medium text-gray-500 bg-white/90 px-1.5 py-0.5 rounded">
+                                                        Ảnh {idx + 1} • {img.width}×{img.height}
+                                                    </span>
+                                                    <div className="absolute top-2 right-2 flex gap-1.5">
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => updateImage(img.id, rotateImageClockwise)}
+                                                            className="bg-white p-1.5 rounded-full text-gray-600 hover:text-indigo-600 shadow-md transition-all hover:scale-105"
+                                                            title="Xoay 90°"
+                                                        >
+                                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                                                            </svg>
+                                                        </button>
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => setCroppingId(img.id)}
+                                                            className="bg-white p-1.5 rounded-full text-gray-600 hover:text-indigo-600 shadow-md transition-all hover:scale-105 text-xs leading-4"
+                                                            title="Cắt ảnh"
+                                                        >
+                                                            ✂️
+                                                        </button>
+                                                        <button 
+                                                            type="button"
+                                                            onClick={() => handleRemoveImage(img.id)}
+                                                            className="bg-white p-1.5 rounded-full text-red-500 hover:bg-red-50 hover:text-red-600 shadow-md transition-all hover:scale-105"
+                                                            title="Xóa ảnh"
+                                                        >
+                                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                                                                <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                                                            </svg>
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {images.length < MAX_IMAGES && (
                                         <div 
-                                            className="border-2 border-dashed border-gray-300 rounded-2xl p-8 flex flex-col items-center justify-center cursor-pointer hover:border-indigo-500 hover:bg-indigo-50/50 transition-all group duration-300"
-                                            onClick={() => fileInputRef.current?.click()}
+                                            className={`border-2 border-dashed border-gray-300 rounded-2xl flex flex-col items-center justify-center cursor-pointer hover:border-indigo-500 hover:bg-indigo-50/50 transition-all group duration-300 ${images.length > 0 ? 'p-4' : 'p-8'}`}
+                                            onClick={() => !processingImages && fileInputRef.current?.click()}
                                         >
-                                            <div className="w-14 h-14 bg-indigo-50 text-indigo-500 rounded-full flex items-center justify-center mb-3 group-hover:scale-110 transition-transform">
-                                                <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                                                </svg>
+                                            <div className={`bg-indigo-50 text-indigo-500 rounded-full flex items-center justify-center group-hover:scale-110 transition-transform ${images.length > 0 ? 'w-9 h-9 mb-1' : 'w-14 h-14 mb-3'}`}>
+                                                {processingImages ? (
+                                                    <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                                                    </svg>
+                                                ) : (
+                                                    <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                                                    </svg>
+                                                )}
                                             </div>
-                                            <span className="font-medium text-gray-600 group-hover:text-indigo-600">Tải ảnh lên hoặc chụp hình</span>
-                                            <span className="text-xs text-gray-400 mt-1">Hỗ trợ JPG, PNG</span>
-                                        </div>
-                                    ) : (
-                                        <div className="relative rounded-2xl overflow-hidden border border-gray-200 bg-gray-50 group">
-                                            <div className="absolute inset-0 bg-black/0 group-hover:bg-black/5 transition-colors z-10"></div>
-                                            <img src={`data:image/jpeg;base64,${image}`} alt="Preview" className="w-full h-56 object-contain p-2" />
-                                            <button 
-                                                type="button"
-                                                onClick={handleRemoveImage}
-                                                className="absolute top-3 right-3 z-20 bg-white p-2 rounded-full text-red-500 hover:bg-red-50 hover:text-red-600 shadow-md transition-all transform hover:scale-105"
-                                                title="Xóa ảnh"
-                                            >
-                                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                                                    <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
-                                                </svg>
-                                            </button>
+                                            <span className="font-medium text-gray-600 group-hover:text-indigo-600">
+                                                {processingImages ? 'Đang xử lý ảnh...' : images.length > 0 ? 'Thêm ảnh (ví dụ: ảnh hình vẽ)' : 'Tải ảnh lên hoặc chụp hình'}
+                                            </span>
+                                            {images.length === 0 && (
+                                                <span className="text-xs text-gray-400 mt-1">Hỗ trợ JPG, PNG, WEBP • Tối đa {MAX_IMAGES} ảnh (đề bài và hình vẽ có thể chụp riêng)</span>
+                                            )}
                                         </div>
                                     )}
+                                    {imageError && (
+                                        <p className="text-xs text-red-500 ml-1">{imageError}</p>
+                                    )}
                                     <input 
                                         type="file" 
                                         ref={fileInputRef} 
                                         className="hidden" 
                                         accept="image/*"
+                                        multiple
                                         onChange={handleImageUpload}
                                     />
                                 </div>
 
-                                {error && (
-                                    <div className="p-4 bg-red-50 border border-red-100 text-red-600 text-sm rounded-xl flex items-center gap-3 animate-fade-in">
-                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor">
-                                            <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
-                                        </svg>
-                                        {error}
-                                    </div>
-                                )}
+                                <label className="flex items-center gap-2 text-sm text-gray-600 ml-1 cursor-pointer select-none">
+                                    <input
+                                        type="checkbox"
+                                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                        checked={forceRefresh}
+                                        onChange={(e) => setForceRefresh(e.target.checked)}
+                                    />
+                                    Phân tích mới hoàn toàn <span className="text-gray-400">(bỏ qua kết quả đã lưu)</span>
+                                </label>
+
+                                {error && <ErrorPanel error={error} />}
 
                                 <button
                                     type="submit"
-                                    disabled={loading}
+                                    disabled={loading || processingImages}
                                     className={`w-full py-4 px-6 rounded-2xl text-white font-bold text-lg shadow-lg hover:shadow-indigo-500/30 transform hover:-translate-y-0.5 transition-all
                                         ${loading ? 'bg-gray-400 cursor-not-allowed shadow-none' : 'bg-gradient-to-r from-indigo-600 to-blue-600 hover:from-indigo-500 hover:to-blue-500'}`}
                                 >
@@ -232,12 +526,42 @@ const App: React.FC = () => {
                                         'Phân Tích & Giải Toán ✨'
                                     )}
                                 </button>
+                                {loading && (
+                                    <button
+                                        type="button"
+                                        onClick={handleCancel}
+                                        className="w-full -mt-3 py-2.5 px-6 rounded-2xl text-gray-600 font-semibold text-sm bg-white border border-gray-200 hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-all"
+                                    >
+                                        Hủy
+                                    </button>
+                                )}
                             </form>
                         </div>
+
+                        <label className="mt-4 flex items-center justify-center gap-2 text-sm text-indigo-600 font-semibold cursor-pointer hover:text-indigo-800">
+                            📂 Mở tệp bài giải ({GEOSOLVER_EXTENSION})
+                            <input
+                                type="file"
+                                accept={`${GEOSOLVER_EXTENSION},application/json`}
+                                className="hidden"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    e.target.value = '';
+                                    if (file) handleImportFile(file);
+                                }}
+                            />
+                        </label>
+
+                        <ProblemLibrary onOpen={handleOpenSaved} />
                     </div>
                 ) : (
                     <>
-                         {loading && (
+                        {error && (
+                            <div className="max-w-5xl mx-auto mb-6">
+                                <ErrorPanel error={error} onDismiss={() => setError(null)} />
+                            </div>
+                        )}
+                         {loading && !partial && (
                             <div className="fixed inset-0 bg-white/60 z-[100] flex flex-col items-center justify-center backdrop-blur-md animate-fade-in">
                                 <div className="bg-white p-8 rounded-3xl shadow-2xl border border-indigo-50 flex flex-col items-center max-w-sm text-center">
                                     <div className="w-16 h-16 bg-indigo-50 rounded-full flex items-center justify-center mb-4">
@@ -248,14 +572,41 @@ const App: React.FC = () => {
                                     </div>
                                     <span className="text-xl font-bold text-gray-800">Đang tư duy lại...</span>
                                     <p className="text-gray-500 mt-2 leading-relaxed">AI đang áp dụng gợi ý của bạn để xây dựng hướng giải mới tối ưu hơn.</p>
+                                    <button
+                                        onClick={handleCancel}
+                                        className="mt-6 px-6 py-2 rounded-xl text-sm font-semibold text-gray-600 bg-gray-50 border border-gray-200 hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-all"
+                                    >
+                                        Hủy
+                                    </button>
                                 </div>
                             </div>
                         )}
-                        <ResultDisplay data={result} onReset={handleReset} onRefine={handleRefine} />
+                        <ResultDisplay
+                            data={shownResult}
+                            onReset={handleReset}
+                            onRefine={canRerun ? handleRefine : undefined}
+                            streaming={loading && !!partial}
+                            cachedAt={partial ? null : cachedAt}
+                            savedAt={openedFromLibrary && libraryEntry ? libraryEntry.updatedAt : null}
+                            problemText={prompt}
+                            onImportFile={handleImportFile}
+                            onReanalyze={canRerun ? handleReanalyze : undefined}
+                            onCancel={handleCancel}
+                            getProvider={getProvider}
+                            initialBranchId={sharedBranchId}
+                        />
                     </>
                 )}
             </main>
 
+            {croppingId && images.some(img => img.id === croppingId) && (
+                <ImageCropper
+                    image={images.find(img => img.id === croppingId)!}
+                    onCrop={handleCrop}
+                    onCancel={() => setCroppingId(null)}
+                />
+            )}
+
             <footer className="mt-auto border-t border-gray-200/60 bg-white/50 backdrop-blur-sm py-8">
                 <div className="max-w-7xl mx-auto px-4 text-center">
                     <p className="text-gray-500 text-sm font-medium">&copy; 2024 GeoSolver. Powered by Gemini AI.</p>
@@ -0,0 +1,35 @@
+import React, { useState } from 'react';
+import { ValidationIssue } from '../types';
+
+interface DiagnosticsNoticeProps {
+    issues?: ValidationIssue[];
+}
+
+export const DiagnosticsNotice: React.FC<DiagnosticsNoticeProps> = ({ issues }) => {
+    const [expanded, setExpanded] = useState<boolean>(false);
+
+    if (!issues || issues.length === 0) return null;
+
+    return (
+        <div className="mt-6 bg-amber-50 border border-amber-200 rounded-2xl overflow-hidden animate-fade-in">
+            <div className="flex justify-between items-center p-4 cursor-pointer hover:bg-amber-100/50" onClick={() => setExpanded(!expanded)}>
+                <span className="text-sm font-bold text-amber-800 flex items-center gap-2">
+                    <span>🛠️</span> Dữ liệu từ AI đã được sửa tự động ({issues.length} mục)
+                </span>
+                <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 text-amber-500 transition-transform ${expanded ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+            </div>
+            {expanded && (
+                <ul className="px-4 pb-4 space-y-1.5 max-h-64 overflow-y-auto">
+                    {issues.map((issue, i) => (
+                        <li key={i} className="text-xs text-amber-900 flex flex-col md:flex-row md:gap-3">
+                            <code className="font-mono text-amber-700 bg-white/70 px-1.5 py-0.5 rounded border border-amber-100 w-fit">{issue.path}</code>
+                            <span>{issue.message}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
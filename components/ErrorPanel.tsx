@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { AnalysisError, ERROR_EXPLANATIONS } from '../services/analysisErrors';
+
+interface ErrorPanelProps {
+    error: AnalysisError;
+    onDismiss?: () => void;
+}
+
+export const ErrorPanel: React.FC<ErrorPanelProps> = ({ error, onDismiss }) => {
+    const [showAttempts, setShowAttempts] = useState<boolean>(false);
+    const info = ERROR_EXPLANATIONS[error.kind] || ERROR_EXPLANATIONS.unknown;
+    const failedAttempts = error.attempts.filter(a => !a.ok);
+
+    return (
+        <div className="p-4 bg-red-50 border border-red-100 text-red-700 text-sm rounded-xl animate-fade-in space-y-2">
+            <div className="flex items-start gap-3">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 flex-shrink-0 mt-0.5" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                </svg>
+                <div className="flex-1 min-w-0">
+                    <div className="font-bold text-red-800">{info.title}</div>
+                    <p className="text-red-700 mt-0.5">{info.explanation}</p>
+                    <p className="text-red-900 mt-1.5">
+                        <span className="font-semibold">👉 Cách khắc phục:</span> {info.action}
+                    </p>
+                    {error.kind !== 'input' && error.message && (
+                        <p className="text-xs text-red-400 mt-1.5 break-words">Chi tiết: {error.message}</p>
+                    )}
+                </div>
+                {onDismiss && (
+                    <button type="button" onClick={onDismiss} className="text-red-300 hover:text-red-500 p-1" title="Đóng">✕</button>
+                )}
+            </div>
+
+            {failedAttempts.length > 0 && (
+                <div className="ml-8">
+                    <button type="button" onClick={() => setShowAttempts(!showAttempts)} className="text-xs font-semibold text-red-500 hover:text-red-700">
+                        {showAttempts ? '▾' : '▸'} Đã thử {error.attempts.length} model
+                    </button>
+                    {showAttempts && (
+                        <table className="mt-2 w-full text-xs bg-white/70 rounded-lg overflow-hidden border border-red-100">
+                            <thead>
+                                <tr className="text-left text-red-400 uppercase tracking-wider">
+                                    <th className="px-2 py-1 font-bold">Model</th>
+                                    <th className="px-2 py-1 font-bold">Thời gian</th>
+                                    <th className="px-2 py-1 font-bold">Kết quả</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {error.attempts.map((a, i) => (
+                                    <tr key={i} className="border-t border-red-50 text-red-800" title={a.message}>
+                                        <td className="px-2 py-1 font-mono">{a.modelId}</td>
+                                        <td className="px-2 py-1">{(a.durationMs / 1000).toFixed(1)}s</td>
+                                        <td className="px-2 py-1">{a.ok ? '✅ Thành công' : ERROR_EXPLANATIONS[a.kind || 'unknown'].title}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,179 @@
+import React from 'react';
+import { GeometryFigure, FigurePoint } from '../types';
+import { FigureHighlight, isFigureHighlightEmpty } from '../services/figureReferences';
+
+interface FigureViewProps {
+    figure: GeometryFigure;
+    highlight?: FigureHighlight;
+}
+
+const SIZE = 300;   // Cạnh dài nhất của hình (px)
+const PAD = 28;     // Lề để chừa chỗ cho nhãn điểm
+const BASE_COLOR = '#64748b';
+const HIGHLIGHT_COLOR = '#4f46e5';
+
+type Pt = { x: number; y: number };
+
+const distance = (a: Pt, b: Pt) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const FigureView: React.FC<FigureViewProps> = ({ figure, highlight }) => {
+    const byName = new Map<string, FigurePoint>(figure.points.map(p => [p.name, p]));
+    const radiusOf = (c: GeometryFigure['circles'][number]) => {
+        if (c.radius) return c.radius;
+        const center = byName.get(c.center);
+        const through = c.through ? byName.get(c.through) : undefined;
+        return center && through ? distance(center, through) : 0;
+    };
+
+    // --- Khung bao (tính cả đường tròn) ---
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    const extend = (x: number, y: number) => {
+        minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+    };
+    figure.points.forEach(p => extend(p.x, p.y));
+    figure.circles.forEach(c => {
+        const center = byName.get(c.center);
+        const r = radiusOf(c);
+        if (center && r) {
+            extend(center.x - r, center.y - r);
+            extend(center.x + r, center.y + r);
+        }
+    });
+    const span = Math.max(maxX - minX, maxY - minY) || 1;
+    const k = SIZE / span;
+    const width = (maxX - minX) * k + PAD * 2;
+    const height = (maxY - minY) * k + PAD * 2;
+
+    // Tọa độ màn hình (trục y hướng xuống)
+    const screen = (name: string): Pt | null => {
+        const p = byName.get(name);
+        return p ? { x: (p.x - minX) * k + PAD, y: (maxY - p.y) * k + PAD } : null;
+    };
+
+    const centroid = figure.points.reduce((acc, p) => {
+        const s = screen(p.name)!;
+        return { x: acc.x + s.x / figure.points.length, y: acc.y + s.y / figure.points.length };
+    }, { x: 0, y: 0 });
+
+    const active = !!highlight && !isFigureHighlightEmpty(highlight);
+    const isPointHighlighted = (name: string) => active && highlight!.points.includes(name);
+
+    // --- Các hình vẽ con ---
+    const renderSegment = (from: string, to: string, key: string, color: string, strokeWidth: number, dashed?: boolean) => {
+        const a = screen(from), b = screen(to);
+        if (!a || !b) return null;
+        return <line key={key} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={color} strokeWidth={strokeWidth} strokeDasharray={dashed ? '5 4' : undefined} strokeLinecap="round" />;
+    };
+
+    const renderEqualMark = (from: string, to: string, marks: number, key: string) => {
+        const a = screen(from), b = screen(to);
+        if (!a || !b) return null;
+        const len = distance(a, b) || 1;
+        const ux = (b.x - a.x) / len, uy = (b.y - a.y) / len; // Hướng đoạn thẳng
+        const nx = -uy, ny = ux;                              // Pháp tuyến
+        const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+        return (
+            <g key={key}>
+                {Array.from({ length: marks }, (_, i) => {
+                    const offset = (i - (marks - 1) / 2) * 4;
+                    const cx = mid.x + ux * offset, cy = mid.y + uy * offset;
+                    return <line key={i} x1={cx - nx * 5} y1={cy - ny * 5} x2={cx + nx * 5} y2={cy + ny * 5} stroke={BASE_COLOR} strokeWidth={1.5} />;
+                })}
+            </g>
+        );
+    };
+
+    const renderAngle = (from: string, vertex: string, to: string, key: string, color: string, marks = 1, right = false) => {
+        const a = screen(from), o = screen(vertex), b = screen(to);
+        if (!a || !o || !b) return null;
+        const la = distance(a, o) || 1, lb = distance(b, o) || 1;
+        const ua = { x: (a.x - o.x) / la, y: (a.y - o.y) / la };
+        const ub = { x: (b.x - o.x) / lb, y: (b.y - o.y) / lb };
+
+        if (right) {
+            const s = 10;
+            const d = `M ${o.x + ua.x * s} ${o.y + ua.y * s} L ${o.x + (ua.x + ub.x) * s} ${o.y + (ua.y + ub.y) * s} L ${o.x + ub.x * s} ${o.y + ub.y * s}`;
+            return <path key={key} d={d} fill="none" stroke={color} strokeWidth={1.5} />;
+        }
+
+        const sweep = ua.x * ub.y - ua.y * ub.x > 0 ? 1 : 0;
+        return (
+            <g key={key}>
+                {Array.from({ length: marks }, (_, i) => {
+                    const r = 16 + i * 4;
+                    const d = `M ${o.x + ua.x * r} ${o.y + ua.y * r} A ${r} ${r} 0 0 ${sweep} ${o.x + ub.x * r} ${o.y + ub.y * r}`;
+                    return <path key={i} d={d} fill="none" stroke={color} strokeWidth={1.5} />;
+                })}
+            </g>
+        );
+    };
+
+    const renderCircle = (center: string, r: number, key: string, color: string, strokeWidth: number) => {
+        const c = screen(center);
+        if (!c || !r) return null;
+        return <circle key={key} cx={c.x} cy={c.y} r={r * k} fill="none" stroke={color} strokeWidth={strokeWidth} />;
+    };
+
+    return (
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-3">
+            <div className="flex items-center justify-between mb-1">
+                <h3 className="font-bold text-gray-800 text-sm">📐 Hình vẽ</h3>
+                {active && <span className="text-[10px] text-indigo-500 font-medium">Tô màu: yếu tố trong bước đang xem</span>}
+            </div>
+            <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto max-h-[320px]" role="img" aria-label="Hình vẽ bài toán">
+                {/* Lớp nền */}
+                <g opacity={active ? 0.5 : 1}>
+                    {figure.circles.map((c, i) => renderCircle(c.center, radiusOf(c), `c${i}`, BASE_COLOR, 1.5))}
+                    {figure.segments.map((s, i) => renderSegment(s.from, s.to, `s${i}`, BASE_COLOR, 1.5, s.dashed))}
+                    {figure.equal_marks.map((m, i) => renderEqualMark(m.from, m.to, m.marks, `e${i}`))}
+                    {figure.angles.map((a, i) => renderAngle(a.from, a.vertex, a.to, `a${i}`, BASE_COLOR, a.marks, a.right))}
+                </g>
+
+                {/* Lớp tô sáng theo node đang chọn */}
+                {active && (
+                    <g>
+                        {highlight!.polygons.map((poly, i) => {
+                            const pts = poly.map(screen).filter((p): p is Pt => !!p);
+                            return <polygon key={`hp${i}`} points={pts.map(p => `${p.x},${p.y}`).join(' ')} fill={HIGHLIGHT_COLOR} fillOpacity={0.1} stroke="none" />;
+                        })}
+                        {highlight!.circles.map((center, i) => {
+                            const c = figure.circles.find(fc => fc.center === center);
+                            return c ? renderCircle(center, radiusOf(c), `hc${i}`, HIGHLIGHT_COLOR, 2.5) : null;
+                        })}
+                        {highlight!.segments.map(([a, b], i) => renderSegment(a, b, `hs${i}`, HIGHLIGHT_COLOR, 3))}
+                        {highlight!.angles.map(([a, o, b], i) => {
+                            const mark = figure.angles.find(fa => fa.vertex === o && ((fa.from === a && fa.to === b) || (fa.from === b && fa.to === a)));
+                            return renderAngle(a, o, b, `ha${i}`, '#d97706', mark?.marks || 1, mark?.right);
+                        })}
+                    </g>
+                )}
+
+                {/* Điểm và nhãn luôn nằm trên cùng */}
+                {figure.points.map(p => {
+                    const s = screen(p.name)!;
+                    const dx = s.x - centroid.x, dy = s.y - centroid.y;
+                    const len = Math.hypot(dx, dy) || 1;
+                    const on = isPointHighlighted(p.name);
+                    return (
+                        <g key={p.name}>
+                            <circle cx={s.x} cy={s.y} r={on ? 4.5 : 3} fill={on ? HIGHLIGHT_COLOR : '#334155'} />
+                            <text
+                                x={s.x + (dx / len) * 13}
+                                y={s.y + (dy / len) * 13}
+                                textAnchor="middle"
+                                dominantBaseline="middle"
+                                fontSize={13}
+                                fontStyle="italic"
+                                fontWeight={on ? 700 : 500}
+                                fill={on ? HIGHLIGHT_COLOR : '#334155'}
+                            >
+                                {p.name}
+                            </text>
+                        </g>
+                    );
+                })}
+            </svg>
+        </div>
+    );
+};
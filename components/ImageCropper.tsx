@@ -0,0 +1,93 @@
+import React, { useState, useRef } from 'react';
+import { ProcessedImage, CropRect, toDataUrl } from '../services/imagePipeline';
+
+interface ImageCropperProps {
+    image: ProcessedImage;
+    onCrop: (rect: CropRect) => void;
+    onCancel: () => void;
+}
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+export const ImageCropper: React.FC<ImageCropperProps> = ({ image, onCrop, onCancel }) => {
+    const imgRef = useRef<HTMLImageElement>(null);
+    const [start, setStart] = useState<{ x: number; y: number } | null>(null);
+    const [rect, setRect] = useState<CropRect | null>(null);
+
+    // Tọa độ con trỏ theo tỉ lệ 0..1 trên ảnh đang hiển thị
+    const toRelative = (e: React.PointerEvent) => {
+        const box = imgRef.current!.getBoundingClientRect();
+        return {
+            x: clamp01((e.clientX - box.left) / box.width),
+            y: clamp01((e.clientY - box.top) / box.height)
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        if (!imgRef.current) return;
+        e.preventDefault();
+        (e.target as Element).setPointerCapture(e.pointerId);
+        const p = toRelative(e);
+        setStart(p);
+        setRect({ x: p.x, y: p.y, width: 0, height: 0 });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (!start || !imgRef.current) return;
+        const p = toRelative(e);
+        setRect({
+            x: Math.min(start.x, p.x),
+            y: Math.min(start.y, p.y),
+            width: Math.abs(p.x - start.x),
+            height: Math.abs(p.y - start.y)
+        });
+    };
+
+    const handlePointerUp = () => setStart(null);
+
+    const isValid = !!rect && rect.width > 0.02 && rect.height > 0.02;
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-gray-900/70 backdrop-blur-sm animate-fade-in" onClick={onCancel}>
+            <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full overflow-hidden" onClick={(e) => e.stopPropagation()}>
+                <div className="px-5 py-3 border-b border-gray-100 flex items-center justify-between">
+                    <h3 className="font-bold text-gray-800">✂️ Cắt vùng chứa bài toán</h3>
+                    <span className="text-xs text-gray-400">Kéo chuột / ngón tay để chọn vùng</span>
+                </div>
+                <div className="p-4 bg-gray-50 flex justify-center">
+                    <div
+                        className="relative select-none touch-none cursor-crosshair"
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                    >
+                        <img ref={imgRef} src={toDataUrl(image)} alt={image.name} className="max-h-[60vh] max-w-full block" draggable={false} />
+                        {rect && (
+                            <div
+                                className="absolute border-2 border-indigo-500 bg-indigo-500/10 pointer-events-none"
+                                style={{
+                                    left: `${rect.x * 100}%`,
+                                    top: `${rect.y * 100}%`,
+                                    width: `${rect.width * 100}%`,
+                                    height: `${rect.height * 100}%`,
+                                    boxShadow: '0 0 0 9999px rgba(17, 24, 39, 0.45)'
+                                }}
+                            />
+                        )}
+                    </div>
+                </div>
+                <div className="px-5 py-3 border-t border-gray-100 flex justify-end gap-2">
+                    <button type="button" onClick={onCancel} className="px-4 py-1.5 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-100">Hủy</button>
+                    <button
+                        type="button"
+                        disabled={!isValid}
+                        onClick={() => rect && onCrop(rect)}
+                        className={`px-4 py-1.5 rounded-lg text-sm font-medium text-white ${isValid ? 'bg-indigo-600 hover:bg-indigo-700' : 'bg-gray-300 cursor-not-allowed'}`}
+                    >
+                        Cắt ảnh
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { LogicNode, AnalysisType } from '../types';
+import { LogicNode, AnalysisType, LeafGrounding } from '../types';
 import { MathDisplay } from './MathDisplay';
+import { NumericCheck } from '../services/numericChecker';
+import { indexNodes, resolveRefs, containsNode } from '../services/logicGraph';
+import { ComplianceIssue } from '../services/curriculumChecker';
+import { buildWalkthrough, WalkthroughOrder } from '../services/walkthrough';
+import { snapshotElement, snapshotToPng } from '../services/domSnapshot';
+import { downloadBlob } from '../services/download';
 
 interface InteractiveMindMapProps {
     data: LogicNode;
@@ -8,6 +14,17 @@ interface InteractiveMindMapProps {
     theme?: 'default' | 'warm' | 'minimal';
     onNodeSelect?: (node: LogicNode) => void;
     selectedNodeId?: string | null;
+    nodeChecks?: Record<string, NumericCheck>; // Kết quả đo trên hình theo node id
+    grounding?: Record<string, LeafGrounding>;  // Nguồn gốc các LEAF theo node id
+    compliance?: Record<string, ComplianceIssue>; // Bước dùng kiến thức ngoài chương trình theo lớp
+}
+
+// Playback state handed down to every card: which cards are shown, which are already
+// "proven" (synthesis order) and which one the narration is talking about
+interface WalkthroughView {
+    visible: Set<string> | null; // null = whole tree
+    done: Set<string> | null;    // null = no dimming
+    active: string;
 }
 
 const NodeItem: React.FC<{ 
@@ -18,7 +35,12 @@ const NodeItem: React.FC<{
     parentNode?: LogicNode;
     onNodeSelect?: (node: LogicNode) => void;
     selectedNodeId?: string | null;
-}> = ({ node, direction, theme, isRoot = false, onNodeSelect, selectedNodeId }) => {
+    nodeChecks?: Record<string, NumericCheck>;
+    grounding?: Record<string, LeafGrounding>;
+    compliance?: Record<string, ComplianceIssue>;
+    nodeIndex: Map<string, LogicNode>;
+    walkthrough?: WalkthroughView | null;
+}> = ({ node, direction, theme, isRoot = false, onNodeSelect, selectedNodeId, nodeChecks, grounding, compliance, nodeIndex, walkthrough }) => {
     const [expanded, setExpanded] = useState<boolean>(false);
     
     // Auto-expand root
@@ -26,8 +48,23 @@ const NodeItem: React.FC<{
         if (isRoot) setExpanded(true);
     }, [isRoot]);
 
-    const hasChildren = node.children && node.children.length > 0;
+    // Expand branches that contain a node selected from outside (e.g. from a proof step)
+    useEffect(() => {
+        if (selectedNodeId && selectedNodeId !== node.id && containsNode(node, selectedNodeId)) setExpanded(true);
+    }, [selectedNodeId]);
+
+    // During playback the walkthrough decides what is open, not the user's clicks
+    const shownChildren = walkthrough?.visible
+        ? (node.children || []).filter(c => walkthrough.visible!.has(c.id))
+        : (node.children || []);
+    const hasChildren = shownChildren.length > 0;
+    const isOpen = walkthrough ? true : expanded;
+    const isActiveStep = walkthrough?.active === node.id;
+    const isPending = !!walkthrough?.done && !walkthrough.done.has(node.id);
     const isSelected = selectedNodeId === node.id;
+    const check = nodeChecks?.[node.id];
+    const complianceIssue = compliance?.[node.id];
+    const refNodes = resolveRefs(node, nodeIndex);
 
     // Styles based on Theme & Type
     let nodeColorClass = 'bg-white border-gray-200 text-gray-800';
@@ -71,6 +108,19 @@ const NodeItem: React.FC<{
         if (node.type === AnalysisType.LEAF) labelText = 'GT';
     }
 
+    // Ungrounded leaf: dashed orange card whatever the theme
+    if (grounding?.[node.id] === 'ungrounded') {
+        if (theme === 'minimal') {
+            nodeColorClass = isSelected ? 'bg-black text-white border-black border-dashed' : 'bg-white border-black border-dashed text-black';
+            labelText = '?';
+        } else {
+            nodeColorClass = isSelected
+                ? 'bg-orange-100 border-orange-500 border-dashed text-orange-900 shadow-lg ring-4 ring-orange-100'
+                : 'bg-orange-50 border-orange-400 border-dashed text-orange-900';
+            labelText = 'CHƯA CÓ CĂN CỨ';
+        }
+    }
+
     const handleClick = (e: React.MouseEvent | React.TouchEvent) => {
         // Stop dragging propagation
         e.stopPropagation();
@@ -85,6 +135,7 @@ const NodeItem: React.FC<{
     // The visual card component
     const NodeCard = (
         <div 
+            data-node-id={node.id}
             onMouseDown={(e) => e.stopPropagation()} 
             onTouchStart={(e) => e.stopPropagation()}
             onClick={handleClick}
@@ -92,6 +143,8 @@ const NodeItem: React.FC<{
                 relative z-20 flex flex-col items-center justify-center 
                 px-3 py-2 md:px-4 md:py-3 rounded-xl border-2 shadow-md transition-all duration-300
                 ${nodeColorClass}
+                ${isActiveStep ? 'ring-4 ring-amber-300 scale-110' : ''}
+                ${isPending ? 'opacity-40' : ''}
                 ${hasChildren || !isRoot ? 'cursor-pointer hover:scale-105 active:scale-95' : ''}
                 min-w-[120px] max-w-[180px] md:min-w-[140px] md:max-w-[220px] text-center
             `}
@@ -117,32 +170,62 @@ const NodeItem: React.FC<{
             {/* Indicator for children */}
             {hasChildren && (
                 <div className={`absolute -right-2 -top-2 w-4 h-4 md:w-5 md:h-5 rounded-full flex items-center justify-center text-[10px] md:text-xs font-bold border shadow-sm transition-transform duration-300
-                    ${expanded ? 'bg-red-500 text-white border-red-500 rotate-45' : 'bg-emerald-500 text-white border-emerald-500'}
+                    ${isOpen ? 'bg-red-500 text-white border-red-500 rotate-45' : 'bg-emerald-500 text-white border-emerald-500'}
                 `}>
                     +
                 </div>
             )}
             
+            {/* Numeric check failed: the statement is false on the constructed figure */}
+            {check?.status === 'fail' && (
+                <div
+                    className="absolute -left-2 -top-2 w-5 h-5 md:w-6 md:h-6 rounded-full flex items-center justify-center text-[10px] md:text-xs font-bold bg-red-500 text-white border-2 border-white shadow-sm"
+                    title={`Sai khi đo trên hình: ${check.detail}`}
+                >
+                    ≠
+                </div>
+            )}
+
+            {/* Method outside the curriculum for the selected grade */}
+            {complianceIssue && (
+                <div
+                    className="absolute -left-2 -bottom-2 px-1.5 h-4 md:h-5 rounded-full flex items-center text-[9px] md:text-[10px] font-bold bg-purple-600 text-white border border-white shadow-sm"
+                    title={complianceIssue.detail}
+                >
+                    🎓 {complianceIssue.kind === 'forbidden' ? 'Ngoài SGK' : 'Lớp trên'}
+                </div>
+            )}
+
+            {/* Shared premises reused from elsewhere in the tree (drawn as dashed edges) */}
+            {refNodes.length > 0 && (
+                <div
+                    className="absolute -right-2 -bottom-2 px-1.5 h-4 md:h-5 rounded-full flex items-center text-[9px] md:text-[10px] font-bold bg-indigo-100 text-indigo-700 border border-indigo-200 shadow-sm"
+                    title={`Dùng lại: ${refNodes.map(r => r.statement).join(' ; ')}`}
+                >
+                    🔗 {refNodes.length}
+                </div>
+            )}
+
             {/* Selection Indicator */}
             {isSelected && (
-                <div className="absolute -bottom-2 bg-indigo-600 text-white text-[8px] md:text-[9px] px-2 py-0.5 rounded-full animate-bounce">
+                <div data-snapshot-ignore className="absolute -bottom-2 bg-indigo-600 text-white text-[8px] md:text-[9px] px-2 py-0.5 rounded-full animate-bounce">
                     Đang xem
                 </div>
             )}
         </div>
     );
 
-    const ChildrenContainer = hasChildren && expanded && (
+    const ChildrenContainer = hasChildren && isOpen && (
         <div className={`flex justify-center gap-4 md:gap-6 ${direction === 'up' ? 'mb-6 md:mb-8' : 'mt-6 md:mt-8'} relative animate-fade-in`}>
              {/* Horizontal connector line connecting all children */}
-             {node.children && node.children.length > 1 && (
+             {shownChildren.length > 1 && (
                 <div className={`absolute left-0 right-0 h-0.5 bg-gray-300 mx-auto w-[calc(100%-2rem)] md:w-[calc(100%-4rem)]
                     ${direction === 'up' ? 'bottom-0' : 'top-0'}
                 `}></div>
             )}
             
-            {node.children?.map((child, idx) => (
-                <div key={idx} className="relative flex flex-col items-center">
+            {shownChildren.map((child, idx) => (
+                <div key={child.id || idx} className="relative flex flex-col items-center">
                     {/* Vertical line from horizontal connector to child */}
                     <div className={`absolute w-0.5 bg-gray-300 h-6 md:h-8
                         ${direction === 'up' ? 'bottom-[-24px] md:bottom-[-32px]' : 'top-[-24px] md:top-[-32px]'}
@@ -155,6 +238,11 @@ const NodeItem: React.FC<{
                         parentNode={node}
                         onNodeSelect={onNodeSelect}
                         selectedNodeId={selectedNodeId}
+                        nodeChecks={nodeChecks}
+                        grounding={grounding}
+                        compliance={compliance}
+                        nodeIndex={nodeIndex}
+                        walkthrough={walkthrough}
                     />
                 </div>
             ))}
@@ -168,7 +256,7 @@ const NodeItem: React.FC<{
                 <>
                     {ChildrenContainer}
                     {/* Vertical line from Node up to Children Container */}
-                    {expanded && hasChildren && (
+                    {isOpen && hasChildren && (
                         <div className="h-6 md:h-8 w-0.5 bg-gray-300 animate-grow-height"></div>
                     )}
                     {NodeCard}
@@ -177,7 +265,7 @@ const NodeItem: React.FC<{
                 // Proof Mode: Node on Top, Children on Bottom
                 <>
                     {NodeCard}
-                    {expanded && hasChildren && (
+                    {isOpen && hasChildren && (
                         <div className="h-6 md:h-8 w-0.5 bg-gray-300 animate-grow-height"></div>
                     )}
                     {ChildrenContainer}
@@ -192,7 +280,10 @@ export const InteractiveMindMap: React.FC<InteractiveMindMapProps> = ({
     direction = 'up', 
     theme = 'default',
     onNodeSelect,
-    selectedNodeId
+    selectedNodeId,
+    nodeChecks,
+    grounding,
+    compliance
 }) => {
     const containerRef = useRef<HTMLDivElement>(null);
     const [isDragging, setIsDragging] = useState(false);
@@ -201,6 +292,109 @@ export const InteractiveMindMap: React.FC<InteractiveMindMapProps> = ({
     const [startY, setStartY] = useState(0);
     const [scrollLeft, setScrollLeft] = useState(0);
     const [scrollTop, setScrollTop] = useState(0);
+    const contentRef = useRef<HTMLDivElement>(null);
+    const treeRef = useRef<HTMLDivElement>(null);
+    const [refEdges, setRefEdges] = useState<{ key: string; d: string }[]>([]);
+    const [exporting, setExporting] = useState<boolean>(false);
+    const nodeIndex = indexNodes(data);
+
+    // Walkthrough playback (null = normal, manual expand/collapse)
+    const [playOrder, setPlayOrder] = useState<WalkthroughOrder | null>(null);
+    const [stepIndex, setStepIndex] = useState(0);
+    const [playing, setPlaying] = useState(false);
+    const steps = playOrder ? buildWalkthrough(data, playOrder) : [];
+    const currentStep = steps[stepIndex];
+    const walkthrough: WalkthroughView | null = playOrder && currentStep ? {
+        visible: playOrder === 'analysis' ? new Set(steps.slice(0, stepIndex + 1).map(st => st.nodeId)) : null,
+        done: playOrder === 'synthesis' ? new Set(steps.slice(0, stepIndex + 1).map(st => st.nodeId)) : null,
+        active: currentStep.nodeId
+    } : null;
+
+    const startWalkthrough = (order: WalkthroughOrder) => {
+        setPlayOrder(order);
+        setStepIndex(0);
+        setPlaying(true);
+    };
+
+    const stopWalkthrough = () => {
+        setPlayOrder(null);
+        setPlaying(false);
+    };
+
+    // Auto-advance while playing; stop on the last step
+    useEffect(() => {
+        if (!playing || !playOrder) return;
+        if (stepIndex >= steps.length - 1) {
+            setPlaying(false);
+            return;
+        }
+        const timer = setTimeout(() => setStepIndex(i => i + 1), 3000);
+        return () => clearTimeout(timer);
+    }, [playing, playOrder, stepIndex, steps.length]);
+
+    // Keep the card being narrated in view
+    useEffect(() => {
+        const container = containerRef.current;
+        const card = currentStep && treeRef.current?.querySelector(`[data-node-id="${CSS.escape(currentStep.nodeId)}"]`);
+        if (!container || !card) return;
+        const timer = setTimeout(() => {
+            const c = container.getBoundingClientRect();
+            const r = card.getBoundingClientRect();
+            container.scrollTo({
+                left: container.scrollLeft + (r.left + r.width / 2) - (c.left + c.width / 2),
+                top: container.scrollTop + (r.top + r.height / 2) - (c.top + c.height / 2),
+                behavior: 'smooth'
+            });
+        }, 50); // Wait for the newly revealed card to mount
+        return () => clearTimeout(timer);
+    }, [currentStep?.nodeId, playOrder]);
+
+    // Measure card positions and draw one curve per reuse (premise -> node that reuses it).
+    // Re-measured whenever nodes expand/collapse or the zoom changes.
+    useEffect(() => {
+        const content = contentRef.current;
+        const tree = treeRef.current;
+        if (!content || !tree) return;
+
+        const measure = () => {
+            const box = content.getBoundingClientRect();
+            const s = content.offsetWidth ? box.width / content.offsetWidth : 1;
+            const edges: { key: string; d: string }[] = [];
+            nodeIndex.forEach(n => (n.refs || []).forEach(refId => {
+                const from = tree.querySelector(`[data-node-id="${CSS.escape(refId)}"]`);
+                const to = tree.querySelector(`[data-node-id="${CSS.escape(n.id)}"]`);
+                if (!from || !to) return; // Premise or user currently collapsed
+                const a = from.getBoundingClientRect();
+                const b = to.getBoundingClientRect();
+                const ax = (a.left + a.width / 2 - box.left) / s;
+                const bx = (b.left + b.width / 2 - box.left) / s;
+                const ay = ((direction === 'up' ? a.bottom : a.top) - box.top) / s;
+                const by = ((direction === 'up' ? b.top : b.bottom) - box.top) / s;
+                const my = (ay + by) / 2;
+                edges.push({ key: `${n.id}->${refId}`, d: `M ${ax} ${ay} C ${ax} ${my}, ${bx} ${my}, ${bx} ${by}` });
+            }));
+            setRefEdges(edges);
+        };
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const schedule = () => {
+            measure();
+            // Cards fade/grow in: measure again once the animation settles
+            clearTimeout(timer);
+            timer = setTimeout(measure, 400);
+        };
+
+        schedule();
+        const resizeObserver = new ResizeObserver(schedule);
+        resizeObserver.observe(tree);
+        const mutationObserver = new MutationObserver(schedule);
+        mutationObserver.observe(tree, { childList: true, subtree: true });
+        return () => {
+            clearTimeout(timer);
+            resizeObserver.disconnect();
+            mutationObserver.disconnect();
+        };
+    }, [data, direction, scale, playOrder]);
 
     // Initial center on load
     useEffect(() => {
@@ -211,6 +405,25 @@ export const InteractiveMindMap: React.FC<InteractiveMindMapProps> = ({
         }
     }, [data]);
 
+    // Ảnh của cả cây đang mở (đúng trạng thái mở/đóng và giao diện hiện tại), kể cả phần ngoài vùng cuộn
+    const handleExport = async (format: 'svg' | 'png') => {
+        if (!contentRef.current || exporting) return;
+        setExporting(true);
+        try {
+            const snapshot = await snapshotElement(contentRef.current);
+            const filename = `geosolver-${new Date().getTime()}.${format}`;
+            if (format === 'svg') {
+                downloadBlob(new Blob([snapshot.svg], { type: 'image/svg+xml;charset=utf-8' }), filename);
+            } else {
+                downloadBlob(await snapshotToPng(snapshot), filename);
+            }
+        } catch (e: any) {
+            alert(e?.message || "Không xuất được ảnh sơ đồ.");
+        } finally {
+            setExporting(false);
+        }
+    };
+
     const handleZoom = (delta: number) => {
         setScale(prev => Math.min(Math.max(0.4, prev + delta), 2.0));
     };
@@ -290,11 +503,69 @@ export const InteractiveMindMap: React.FC<InteractiveMindMapProps> = ({
                 >
                     100%
                 </button>
+                <button
+                    onClick={() => handleExport('svg')}
+                    disabled={exporting}
+                    className="p-2 hover:bg-gray-100 rounded text-gray-500 text-xs font-bold border-t border-gray-100 disabled:opacity-40"
+                    title="Tải ảnh SVG của toàn bộ sơ đồ đang mở"
+                >
+                    SVG
+                </button>
+                <button
+                    onClick={() => handleExport('png')}
+                    disabled={exporting}
+                    className="p-2 hover:bg-gray-100 rounded text-gray-500 text-xs font-bold disabled:opacity-40"
+                    title="Tải ảnh PNG của toàn bộ sơ đồ đang mở"
+                >
+                    PNG
+                </button>
             </div>
 
-            <div className="absolute bottom-4 left-4 z-30 bg-white/80 backdrop-blur-sm px-3 py-1.5 rounded-full text-xs text-gray-500 shadow-sm border border-gray-100 pointer-events-none">
-                👆 Kéo để di chuyển • Zoom: {Math.round(scale * 100)}%
-            </div>
+            {/* Walkthrough launcher */}
+            {!playOrder && (
+                <div className="absolute top-4 left-4 z-30 flex items-center gap-1 bg-white rounded-lg shadow-md p-1 border border-gray-100 text-xs font-bold">
+                    <span className="px-2 text-gray-400">▶ Trình chiếu:</span>
+                    <button onClick={() => startWalkthrough('analysis')} className="px-2 py-1.5 rounded hover:bg-indigo-50 text-indigo-700" title="Mở dần từ kết luận tới giả thiết">
+                        Phân tích đi lên
+                    </button>
+                    <button onClick={() => startWalkthrough('synthesis')} className="px-2 py-1.5 rounded hover:bg-emerald-50 text-emerald-700" title="Đi từ giả thiết về kết luận">
+                        Tổng hợp
+                    </button>
+                </div>
+            )}
+
+            {playOrder && currentStep ? (
+                // Narration + playback controls
+                <div className="absolute bottom-4 left-4 right-4 md:right-20 z-30 bg-white/95 backdrop-blur-sm rounded-2xl shadow-lg border border-amber-200 p-3 md:p-4 flex flex-col md:flex-row md:items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                        <p className="text-[10px] font-bold text-amber-600 uppercase tracking-wider mb-1">
+                            {playOrder === 'analysis' ? 'Phân tích đi lên' : 'Tổng hợp'} • Bước {stepIndex + 1}/{steps.length}
+                        </p>
+                        <div className="text-sm text-gray-800 leading-relaxed">
+                            <MathDisplay text={currentStep.narration} />
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                        <button onClick={() => { setPlaying(false); setStepIndex(i => Math.max(0, i - 1)); }} disabled={stepIndex === 0} className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-30" title="Bước trước">⏮</button>
+                        <button
+                            onClick={() => {
+                                if (!playing && stepIndex >= steps.length - 1) setStepIndex(0);
+                                setPlaying(!playing);
+                            }}
+                            className="px-3 py-2 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold"
+                            title={playing ? 'Tạm dừng' : 'Phát'}
+                        >
+                            {playing ? '⏸' : '▶'}
+                        </button>
+                        <button onClick={() => { setPlaying(false); setStepIndex(i => Math.min(steps.length - 1, i + 1)); }} disabled={stepIndex >= steps.length - 1} className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-30" title="Bước tiếp">⏭</button>
+                        <button onClick={stopWalkthrough} className="p-2 rounded-lg hover:bg-gray-100 text-gray-500" title="Thoát trình chiếu">✕</button>
+                    </div>
+                </div>
+            ) : (
+                <div className="absolute bottom-4 left-4 z-30 bg-white/80 backdrop-blur-sm px-3 py-1.5 rounded-full text-xs text-gray-500 shadow-sm border border-gray-100 pointer-events-none">
+                    👆 Kéo để di chuyển • Zoom: {Math.round(scale * 100)}%
+                </div>
+            )}
 
             <div 
                 ref={containerRef}
@@ -316,15 +587,28 @@ export const InteractiveMindMap: React.FC<InteractiveMindMapProps> = ({
                     style={{ transform: `scale(${scale})` }}
                 >
                     {/* Pointer events auto on inner divs via NodeItem styling */}
-                    <div className="pointer-events-auto">
-                        <NodeItem 
-                            node={data} 
-                            direction={direction} 
-                            theme={theme} 
-                            isRoot={true}
-                            onNodeSelect={onNodeSelect}
-                            selectedNodeId={selectedNodeId}
-                        />
+                    <div className="pointer-events-auto relative" ref={contentRef}>
+                        <div ref={treeRef}>
+                            <NodeItem 
+                                node={data} 
+                                direction={direction} 
+                                theme={theme} 
+                                isRoot={true}
+                                onNodeSelect={onNodeSelect}
+                                selectedNodeId={selectedNodeId}
+                                nodeChecks={nodeChecks}
+                                grounding={grounding}
+                                compliance={compliance}
+                                nodeIndex={nodeIndex}
+                                walkthrough={walkthrough}
+                            />
+                        </div>
+                        {/* Extra edges for shared premises (refs), under the cards */}
+                        <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible z-10" aria-hidden="true">
+                            {refEdges.map(edge => (
+                                <path key={edge.key} d={edge.d} fill="none" stroke="#a5b4fc" strokeWidth={2} strokeDasharray="6 4" />
+                            ))}
+                        </svg>
                     </div>
                 </div>
             </div>
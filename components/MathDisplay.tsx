@@ -1,5 +1,6 @@
 import React from 'react';
 import katex from 'katex';
+import { normalizeLatex } from '../services/latexNormalize';
 
 interface MathDisplayProps {
     text: string;
@@ -10,22 +11,6 @@ interface MathDisplayProps {
 export const MathDisplay: React.FC<MathDisplayProps> = ({ text, className = '', block = false }) => {
     if (!text) return null;
 
-    // Helper to clean and normalize LaTeX syntax before rendering
-    const normalizeLatex = (latex: string): string => {
-        let raw = latex;
-        // 1. Convert \angle ABC or \angle{ABC} -> \widehat{ABC}
-        raw = raw.replace(/\\angle\s*\{?([A-Za-z0-9]+)\}?/g, '\\widehat{$1}');
-        // 2. Convert \hat{ABC} -> \widehat{ABC}
-        raw = raw.replace(/\\hat\s*\{?([A-Za-z0-9]+)\}?/g, '\\widehat{$1}');
-        // 3. Normalize existing \widehat: Remove extra spaces inside braces
-        raw = raw.replace(/\\widehat\s*\{?\s*([A-Za-z0-9]+)\s*\}?/g, '\\widehat{$1}');
-        // 4. Handle degrees if missing backslash (90^o -> 90^\circ) - cautious replacement
-        raw = raw.replace(/(\d+)\^o(?!\w)/g, '$1^\\circ');
-        // 5. Clean text commands
-        raw = raw.replace(/\\text\{([^}]+)\}/g, (match, content) => `\\text{${content}}`);
-        return raw;
-    };
-
     // Helper to render a specific LaTeX string
     const renderKatex = (latex: string, isBlock: boolean, key: string | number) => {
         const normalized = normalizeLatex(latex);
@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import { AnalysisBranch, GeometryResponse, LogicNode, AnalysisType } from '../types';
+import { MathDisplay } from './MathDisplay';
+import { PracticeBlank, PracticeScore, buildPractice, checkPracticeAnswer, blankPoints, formatPoints } from '../services/practice';
+import { buildHintLadder } from '../services/hintLadder';
+import { indexNodes } from '../services/logicGraph';
+
+interface PracticeModeProps {
+    branch: AnalysisBranch;
+    data: GeometryResponse;
+    bestScore?: PracticeScore;
+    hintLevels: Record<string, number>; // Số gợi ý đã mở theo node (dùng chung với Góc Gia Sư)
+    onRevealHint: (nodeId: string) => void;
+    onRestart: () => void;
+    onComplete: (score: PracticeScore) => void; // Gọi một lần khi mọi chỗ trống đã xong
+}
+
+type BlankStatus = 'open' | 'correct' | 'revealed';
+
+interface BlankState {
+    status: BlankStatus;
+    attempts: number;
+    typed: string;
+    wrong?: string; // Câu trả lời sai gần nhất
+    hints?: number; // Số gợi ý đã mở lúc hoàn thành chỗ trống
+}
+
+const emptyState: BlankState = { status: 'open', attempts: 0, typed: '' };
+
+export const PracticeMode: React.FC<PracticeModeProps> = ({ branch, data, bestScore, hintLevels, onRevealHint, onRestart, onComplete }) => {
+    const blanks = buildPractice(branch.root, data);
+    const index = indexNodes(branch.root);
+    const [states, setStates] = useState<Record<string, BlankState>>({});
+    const [reported, setReported] = useState(false);
+
+    const keyOf = (blank: PracticeBlank) => `${blank.nodeId}:${blank.kind}`;
+    const stateOf = (blank: PracticeBlank) => states[keyOf(blank)] || emptyState;
+    const update = (blank: PracticeBlank, patch: Partial<BlankState>) =>
+        setStates(prev => ({ ...prev, [keyOf(blank)]: { ...(prev[keyOf(blank)] || emptyState), ...patch } }));
+
+    const hintsFor = (blank: PracticeBlank) => stateOf(blank).hints ?? (hintLevels[blank.hintNodeId] || 0);
+
+    const answer = (blank: PracticeBlank, value: string) => {
+        const current = stateOf(blank);
+        if (current.status !== 'open' || !value.trim()) return;
+        const ok = checkPracticeAnswer(blank, value);
+        update(blank, ok
+            ? { status: 'correct', attempts: current.attempts + 1, wrong: undefined, hints: hintsFor(blank) }
+            : { attempts: current.attempts + 1, wrong: value });
+    };
+
+    // Một node có thể là nguồn gợi ý của nhiều chỗ trống -> chỉ đếm một lần
+    const hintNodes = [...new Set(blanks.map(b => b.hintNodeId))];
+    const done = blanks.filter(b => stateOf(b).status !== 'open').length;
+    const score: PracticeScore = {
+        correct: blanks.filter(b => stateOf(b).status === 'correct').length,
+        total: blanks.length,
+        attempts: blanks.reduce((sum, b) => sum + stateOf(b).attempts, 0),
+        hintsUsed: hintNodes.reduce((sum, id) => sum + (hintLevels[id] || 0), 0),
+        points: blanks.reduce((sum, b) => sum + (stateOf(b).status === 'correct' ? blankPoints(hintsFor(b)) : 0), 0)
+    };
+
+    useEffect(() => {
+        if (!reported && blanks.length > 0 && done === blanks.length) {
+            setReported(true);
+            onComplete(score);
+        }
+    }, [done, blanks.length, reported]);
+
+    const restart = () => {
+        setStates({});
+        setReported(false);
+        onRestart();
+    };
+
+    if (blanks.length === 0) {
+        return (
+            <div className="text-center text-gray-500 py-16">
+                <span className="text-4xl block mb-2">🧩</span>
+                Sơ đồ này quá ngắn, chưa có bước nào để luyện tập.
+            </div>
+        );
+    }
+
+    const renderBlank = (blank: PracticeBlank, node: LogicNode, parent?: LogicNode) => {
+        const st = stateOf(blank);
+        const hintNode = index.get(blank.hintNodeId);
+        const hints = hintNode ? buildHintLadder(hintNode, data, index, branch.grounding?.[hintNode.id]) : [];
+        const revealed = Math.min(hintLevels[blank.hintNodeId] || 0, hints.length);
+        const question = blank.kind === 'statement'
+            ? (parent ? `Để có ${parent.statement}, cần chứng minh điều gì?` : `Cần chứng minh điều gì?`)
+            : `Dùng định lý / tính chất nào để có ${node.statement}?`;
+
+        if (st.status !== 'open') {
+            return (
+                <div className={`px-3 py-2 rounded-lg border text-sm ${st.status === 'correct' ? 'bg-emerald-50 border-emerald-200 text-emerald-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+                    <span className="font-bold mr-1">{st.status === 'correct' ? '✓' : 'Đáp án:'}</span>
+                    <MathDisplay text={blank.answer} />
+                </div>
+            );
+        }
+
+        return (
+            <div className="p-3 rounded-xl border-2 border-dashed border-indigo-300 bg-indigo-50/40 space-y-2">
+                <p className="text-sm font-semibold text-indigo-900"><MathDisplay text={question} /></p>
+                {hints.slice(0, revealed).map(hint => (
+                    <div key={hint.level} className="px-3 py-1.5 rounded-lg bg-sky-50 border border-sky-100 text-xs text-sky-900">
+                        <span className="font-bold text-sky-600 mr-1">💡 {hint.label}:</span>
+                        <MathDisplay text={hint.text} />
+                    </div>
+                ))}
+                <div className="grid sm:grid-cols-2 gap-2">
+                    {blank.options.map((option, i) => (
+                        <button
+                            key={i}
+                            type="button"
+                            onClick={() => answer(blank, option)}
+                            className={`text-left px-3 py-2 rounded-lg border text-sm transition-all ${st.wrong === option ? 'bg-red-50 border-red-300 text-red-700' : 'bg-white border-gray-200 hover:border-indigo-400 hover:bg-indigo-50'}`}
+                        >
+                            <MathDisplay text={option} />
+                        </button>
+                    ))}
+                </div>
+                <form
+                    className="flex gap-2"
+                    onSubmit={(e) => { e.preventDefault(); answer(blank, st.typed); }}
+                >
+                    <input
+                        value={st.typed}
+                        onChange={(e) => update(blank, { typed: e.target.value })}
+                        placeholder={blank.kind === 'statement' ? 'Hoặc tự nhập, ví dụ: AB = AC' : 'Hoặc tự nhập tên định lý'}
+                        className="flex-1 px-3 py-1.5 rounded-lg border border-gray-200 text-sm outline-none focus:border-indigo-400"
+                    />
+                    <button type="submit" disabled={!st.typed.trim()} className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-sm font-bold disabled:opacity-40">
+                        Kiểm tra
+                    </button>
+                </form>
+                <div className="flex items-center justify-between text-xs">
+                    {st.wrong ? <span className="text-red-600">Chưa đúng, thử lại nhé!</span> : <span />}
+                    <div className="flex items-center gap-3">
+                        {revealed < hints.length && (
+                            <button type="button" onClick={() => onRevealHint(blank.hintNodeId)} className="text-sky-600 hover:text-sky-800 font-bold">
+                                💡 Gợi ý ({revealed}/{hints.length}, −{formatPoints(1 - blankPoints(1))} điểm)
+                            </button>
+                        )}
+                        <button type="button" onClick={() => update(blank, { status: 'revealed', hints: hintsFor(blank) })} className="text-gray-400 hover:text-gray-600 underline">
+                            Xem đáp án
+                        </button>
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    const renderNode = (node: LogicNode, parent?: LogicNode, depth = 0): React.ReactNode => {
+        const statementBlank = blanks.find(b => b.nodeId === node.id && b.kind === 'statement');
+        const methodBlank = blanks.find(b => b.nodeId === node.id && b.kind === 'method');
+        const label = node.type === AnalysisType.ROOT ? 'Kết luận' : node.type === AnalysisType.LEAF ? 'Giả thiết / Đã biết' : 'Mục tiêu trung gian';
+
+        return (
+            <div key={node.id} className={depth > 0 ? 'ml-4 md:ml-8 pl-3 border-l-2 border-gray-100' : ''}>
+                <div className="mb-3 p-3 rounded-xl bg-white border border-gray-200 shadow-sm space-y-2">
+                    <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">{label}</p>
+                    {statementBlank ? renderBlank(statementBlank, node, parent) : (
+                        <div className="font-bold text-gray-900"><MathDisplay text={node.statement} /></div>
+                    )}
+                    {methodBlank ? renderBlank(methodBlank, node, parent) : node.method && (
+                        <div className="text-xs text-amber-800">💡 <MathDisplay text={node.method} /></div>
+                    )}
+                </div>
+                {node.children?.map(child => renderNode(child, node, depth + 1))}
+            </div>
+        );
+    };
+
+    return (
+        <div className="space-y-4 animate-fade-in">
+            <div className="flex flex-wrap items-center justify-between gap-3 bg-indigo-50 rounded-2xl p-4 border border-indigo-100">
+                <div>
+                    <h3 className="font-bold text-indigo-900">🧩 Điền vào chỗ trống</h3>
+                    <p className="text-xs text-indigo-600">Suy luận ngược: tìm mục tiêu trung gian hoặc định lý còn thiếu trên sơ đồ.</p>
+                </div>
+                <div className="flex items-center gap-3 text-sm">
+                    <span className="font-bold text-indigo-700">Đúng {score.correct}/{score.total}</span>
+                    <span className="font-bold text-sky-700">Điểm {formatPoints(score.points)}/{score.total}</span>
+                    {score.hintsUsed > 0 && <span className="text-xs text-sky-600">💡 {score.hintsUsed} gợi ý</span>}
+                    <span className="text-gray-500">Đã làm {done}/{blanks.length}</span>
+                    {bestScore && <span className="text-xs text-gray-400">Tốt nhất: {formatPoints(bestScore.points)} điểm</span>}
+                    <button onClick={restart} className="px-3 py-1 rounded-lg bg-white border border-indigo-200 text-indigo-700 text-xs font-bold hover:bg-indigo-100">
+                        Làm lại
+                    </button>
+                </div>
+            </div>
+            {done === blanks.length && (
+                <div className="p-4 rounded-2xl bg-emerald-50 border border-emerald-200 text-emerald-800 text-sm font-medium">
+                    🎉 Hoàn thành! Bạn làm đúng {score.correct}/{score.total} chỗ trống sau {score.attempts} lần trả lời
+                    {score.hintsUsed > 0 ? `, dùng ${score.hintsUsed} gợi ý: được ${formatPoints(score.points)}/${score.total} điểm.` : ', không cần gợi ý nào.'}
+                </div>
+            )}
+            <div className="max-w-3xl">{renderNode(branch.root)}</div>
+        </div>
+    );
+};
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { GeometryResponse, AnalysisBranch } from '../types';
+import { MermaidDiagram } from './MermaidDiagram';
+import { MathDisplay } from './MathDisplay';
+import { branchKnowledge } from '../services/theoremCatalog';
+import { downloadLatexDocument, forwardProofLines } from '../services/latexExport';
+
+type WorksheetVariant = 'teacher' | 'student';
+
+interface PrintableWorksheetProps {
+    data: GeometryResponse;
+    branch: AnalysisBranch;
+    problemText?: string;
+    onClose: () => void;
+}
+
+const DEFAULT_BLANK_LINES = 6;
+
+// Bản xem trước để in / lưu PDF. Gắn thẳng vào <body>: khi in, CSS trong index.html ẩn #root nên chỉ còn tờ này.
+export const PrintableWorksheet: React.FC<PrintableWorksheetProps> = ({ data, branch, problemText = '', onClose }) => {
+    const [variant, setVariant] = useState<WorksheetVariant>('teacher');
+
+    const steps = branch.proof_steps || [];
+    const proofLines = forwardProofLines(branch.forward_proof);
+    // Bản học sinh: số dòng trống bằng số bước của lời giải
+    const blankCount = steps.length || proofLines.length || DEFAULT_BLANK_LINES;
+    const knowledge = branchKnowledge(branch.root, data);
+
+    const sectionTitle = "text-sm font-bold uppercase tracking-wider text-gray-500 mb-2";
+
+    return createPortal(
+        <div className="fixed inset-0 z-[200] bg-gray-900/60 overflow-y-auto p-4 print:static print:bg-white print:p-0 print:overflow-visible">
+            {/* Controls */}
+            <div className="max-w-[210mm] mx-auto mb-3 flex flex-wrap items-center gap-2 print:hidden">
+                <div className="flex gap-1 bg-white/90 p-1 rounded-xl">
+                    <button
+                        onClick={() => setVariant('teacher')}
+                        className={`px-3 py-1.5 rounded-lg text-sm font-semibold ${variant === 'teacher' ? 'bg-indigo-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+                    >
+                        Bản đầy đủ
+                    </button>
+                    <button
+                        onClick={() => setVariant('student')}
+                        className={`px-3 py-1.5 rounded-lg text-sm font-semibold ${variant === 'student' ? 'bg-indigo-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+                        title="Để trống phần lời giải cho học sinh tự viết"
+                    >
+                        Bản học sinh
+                    </button>
+                </div>
+                <button
+                    onClick={() => downloadLatexDocument(data, branch, problemText)}
+                    className="ml-auto px-4 py-2 rounded-xl text-sm font-semibold text-gray-700 bg-white hover:bg-gray-100"
+                    title="Tệp .tex biên dịch được: sơ đồ vẽ bằng forest/TikZ, lời giải dạng enumerate"
+                >
+                    ⬇️ LaTeX
+                </button>
+                <button onClick={() => window.print()} className="px-4 py-2 rounded-xl text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700">
+                    🖨️ In / Lưu PDF
+                </button>
+                <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-semibold text-gray-700 bg-white hover:bg-gray-100">
+                    Đóng
+                </button>
+            </div>
+
+            {/* Sheet */}
+            <div className="max-w-[210mm] mx-auto bg-white text-gray-900 p-10 rounded-lg shadow-2xl space-y-6 print:max-w-none print:p-0 print:rounded-none print:shadow-none">
+                {variant === 'student' && (
+                    <div className="flex gap-8 text-sm">
+                        <span className="flex-1">Họ và tên: ......................................................</span>
+                        <span>Lớp: ..............</span>
+                    </div>
+                )}
+
+                <section className="break-inside-avoid">
+                    <h2 className={sectionTitle}>Đề bài</h2>
+                    {problemText.trim() ? (
+                        <MathDisplay text={problemText} block={true} />
+                    ) : (
+                        <p className="text-sm italic text-gray-500">Đề bài dạng ảnh, xem giả thiết và kết luận bên dưới.</p>
+                    )}
+                </section>
+
+                {/* GT / KL */}
+                <section className="break-inside-avoid border border-gray-400 rounded">
+                    <div className="flex border-b border-gray-400">
+                        <div className="w-12 shrink-0 border-r border-gray-400 p-2 font-bold text-center">GT</div>
+                        <ul className="p-2 space-y-1">
+                            {data.hypothesis.map((h, i) => <li key={i}><MathDisplay text={h} /></li>)}
+                        </ul>
+                    </div>
+                    <div className="flex">
+                        <div className="w-12 shrink-0 border-r border-gray-400 p-2 font-bold text-center">KL</div>
+                        <div className="p-2"><MathDisplay text={data.conclusion} /></div>
+                    </div>
+                </section>
+
+                <section className="break-inside-avoid">
+                    <h2 className={sectionTitle}>Sơ đồ phân tích: {branch.name}</h2>
+                    <div className="worksheet-diagram border border-gray-200 rounded p-2">
+                        <MermaidDiagram data={branch.root} theme="minimal" showProofArrows={false} grounding={branch.grounding} showControls={false} />
+                    </div>
+                </section>
+
+                <section>
+                    <h2 className={sectionTitle}>Lời giải</h2>
+                    {variant === 'student' ? (
+                        <ol className="space-y-5">
+                            {Array.from({ length: blankCount }, (_, i) => (
+                                <li key={i} className="flex gap-3 break-inside-avoid">
+                                    <span className="w-6 shrink-0 font-bold">{i + 1}.</span>
+                                    <div className="flex-1 space-y-4">
+                                        <div className="border-b border-dotted border-gray-500 h-6"></div>
+                                        <div className="flex gap-2 text-sm text-gray-500">
+                                            <span>vì</span>
+                                            <div className="flex-1 border-b border-dotted border-gray-500"></div>
+                                        </div>
+                                    </div>
+                                </li>
+                            ))}
+                        </ol>
+                    ) : steps.length > 0 ? (
+                        <ol className="space-y-2">
+                            {steps.map((step, i) => (
+                                <li key={i} className="flex gap-3 break-inside-avoid">
+                                    <span className="w-6 shrink-0 font-bold">{i + 1}.</span>
+                                    <div>
+                                        <MathDisplay text={step.statement} />
+                                        {step.justification && (
+                                            <span className="text-gray-600 italic"> (<MathDisplay text={step.justification} />)</span>
+                                        )}
+                                    </div>
+                                </li>
+                            ))}
+                        </ol>
+                    ) : proofLines.length > 0 ? (
+                        <ol className="space-y-2">
+                            {proofLines.map((line, i) => (
+                                <li key={i} className="flex gap-3 break-inside-avoid">
+                                    <span className="w-6 shrink-0 font-bold">{i + 1}.</span>
+                                    <div><MathDisplay text={line} /></div>
+                                </li>
+                            ))}
+                        </ol>
+                    ) : (
+                        <p className="text-sm italic text-gray-500">Chưa có lời giải.</p>
+                    )}
+                </section>
+
+                {knowledge.length > 0 && (
+                    <section className="break-inside-avoid">
+                        <h2 className={sectionTitle}>Kiến thức sử dụng</h2>
+                        <ul className="space-y-2 text-sm">
+                            {knowledge.map((k, i) => (
+                                <li key={i}>
+                                    <span className="font-bold"><MathDisplay text={k.name} /></span>
+                                    {k.textbook_ref && <span className="text-gray-500"> ({k.textbook_ref})</span>}
+                                    {k.description && <div className="text-gray-700"><MathDisplay text={k.description} /></div>}
+                                </li>
+                            ))}
+                        </ul>
+                    </section>
+                )}
+            </div>
+        </div>,
+        document.body
+    );
+};
@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from 'react';
+import { MathDisplay } from './MathDisplay';
+import { LibraryEntry, listLibrary, deleteLibraryEntry, setLibraryPinned, searchLibrary, sortLibrary, libraryTitle } from '../services/problemLibrary';
+import { isIndexedDbAvailable } from '../services/indexedDb';
+
+interface ProblemLibraryProps {
+    onOpen: (entry: LibraryEntry) => void;
+}
+
+export const ProblemLibrary: React.FC<ProblemLibraryProps> = ({ onOpen }) => {
+    const [entries, setEntries] = useState<LibraryEntry[]>([]);
+    const [query, setQuery] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isIndexedDbAvailable()) return;
+        listLibrary()
+            .then(setEntries)
+            .catch((e: any) => setError(`Không đọc được thư viện: ${e?.message || e}`));
+    }, []);
+
+    const togglePin = async (entry: LibraryEntry) => {
+        try {
+            await setLibraryPinned(entry.id, !entry.pinned);
+            setEntries(prev => sortLibrary(prev.map(e => e.id === entry.id ? { ...e, pinned: !entry.pinned } : e)));
+        } catch (e: any) {
+            setError(e?.message || String(e));
+        }
+    };
+
+    const remove = async (entry: LibraryEntry) => {
+        if (!window.confirm(`Xóa "${libraryTitle(entry)}" khỏi thư viện?`)) return;
+        try {
+            await deleteLibraryEntry(entry.id);
+            setEntries(prev => prev.filter(e => e.id !== entry.id));
+        } catch (e: any) {
+            setError(e?.message || String(e));
+        }
+    };
+
+    if (entries.length === 0 && !error) return null;
+    const shown = searchLibrary(entries, query);
+
+    return (
+        <div className="mt-8 bg-white/80 backdrop-blur-sm p-6 rounded-3xl shadow-xl shadow-indigo-100 border border-white space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h3 className="font-bold text-gray-800">📚 Bài đã giải <span className="text-gray-400 font-normal text-sm">({entries.length})</span></h3>
+                <input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Tìm theo đề bài, giả thiết..."
+                    className="flex-1 min-w-[12rem] max-w-xs px-4 py-2 rounded-xl bg-gray-50 border border-gray-200 text-sm outline-none focus:border-indigo-400 focus:bg-white"
+                />
+            </div>
+            {error && <p className="text-xs text-red-500">{error}</p>}
+
+            <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+                {shown.map(entry => (
+                    <div
+                        key={entry.id}
+                        onClick={() => onOpen(entry)}
+                        className={`group flex items-center gap-3 p-3 rounded-2xl border cursor-pointer transition-all hover:border-indigo-300 hover:bg-indigo-50/40 ${entry.pinned ? 'border-amber-200 bg-amber-50/40' : 'border-gray-100 bg-white'}`}
+                    >
+                        {entry.thumbnail ? (
+                            <img src={entry.thumbnail} alt="" className="w-14 h-14 rounded-xl object-cover border border-gray-100 shrink-0" />
+                        ) : (
+                            <div className="w-14 h-14 rounded-xl bg-indigo-50 text-indigo-400 flex items-center justify-center text-xl shrink-0">📐</div>
+                        )}
+                        <div className="flex-1 min-w-0">
+                            <p className="font-semibold text-gray-800 text-sm truncate">{libraryTitle(entry)}</p>
+                            {entry.data.conclusion && (
+                                <div className="text-xs text-gray-500 truncate">KL: <MathDisplay text={entry.data.conclusion} /></div>
+                            )}
+                            <p className="text-[11px] text-gray-400 mt-0.5">
+                                {new Date(entry.updatedAt).toLocaleString('vi-VN')} · {entry.data.branches.length} hướng giải
+                                {entry.grade ? ` · Lớp ${entry.grade}` : ''}
+                                {entry.refinements.length > 0 ? ` · ${entry.refinements.length} lần chỉnh sửa` : ''}
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                            <button
+                                onClick={(e) => { e.stopPropagation(); togglePin(entry); }}
+                                className={`p-1.5 rounded-lg text-sm transition-all ${entry.pinned ? 'opacity-100' : 'opacity-30 group-hover:opacity-70 hover:!opacity-100'}`}
+                                title={entry.pinned ? 'Bỏ ghim' : 'Ghim lên đầu'}
+                            >
+                                📌
+                            </button>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); remove(entry); }}
+                                className="p-1.5 rounded-lg text-sm text-gray-400 hover:text-red-600 hover:bg-red-50"
+                                title="Xóa khỏi thư viện"
+                            >
+                                🗑️
+                            </button>
+                        </div>
+                    </div>
+                ))}
+                {shown.length === 0 && (
+                    <p className="text-sm text-gray-400 text-center py-6">Không tìm thấy bài nào khớp "{query}".</p>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,24 +1,51 @@
-import React, { useState, useEffect } from 'react';
-import { GeometryResponse, AnalysisBranch, KnowledgeItem, LogicNode, AnalysisType } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { GeometryResponse, AnalysisBranch, KnowledgeItem, LogicNode, AnalysisType, TutorMessage } from '../types';
 import { TreeVisualizer } from './TreeVisualizer';
 import { MermaidDiagram } from './MermaidDiagram';
 import { InteractiveMindMap } from './InteractiveMindMap';
 import { MathDisplay } from './MathDisplay';
+import { DiagnosticsNotice } from './DiagnosticsNotice';
+import { FigureView } from './FigureView';
+import { PracticeMode } from './PracticeMode';
+import { TutorChat } from './TutorChat';
+import { PrintableWorksheet } from './PrintableWorksheet';
+import { findFigureReferences } from '../services/figureReferences';
+import { checkTreeNumerically } from '../services/numericChecker';
+import { GROUNDING_LABELS, countUngrounded } from '../services/groundingChecker';
+import { checkCompliance } from '../services/curriculumChecker';
+import { indexNodes } from '../services/logicGraph';
+import { PracticeScore, formatPoints } from '../services/practice';
+import { buildHintLadder } from '../services/hintLadder';
+import { askTutor } from '../services/tutorChat';
+import { ModelProvider } from '../services/modelProviders';
+import { toAnalysisError } from '../services/analysisErrors';
+import { downloadGeosolverFile, GEOSOLVER_EXTENSION } from '../services/geosolverFile';
+import { buildShareUrl, isShareSupported, MAX_SHARE_URL_LENGTH } from '../services/shareLink';
+import { resolveNodeKnowledge, catalogKnowledgeItem, formatTextbookRef, getCatalogEntry, findCatalogEntry } from '../services/theoremCatalog';
 
 interface ResultDisplayProps {
     data: GeometryResponse;
     onReset: () => void;
     onRefine?: (feedback: string) => void;
+    streaming?: boolean; // Kết quả đang được stream, data sẽ còn cập nhật
+    cachedAt?: number | null; // Có giá trị khi kết quả lấy từ bộ nhớ đệm
+    savedAt?: number | null;  // Có giá trị khi bài được mở lại từ thư viện
+    problemText?: string;     // Đề bài dạng chữ (ghi vào tệp xuất)
+    onImportFile?: (file: File) => void; // Mở tệp .geosolver thay cho kết quả hiện tại
+    initialBranchId?: string; // Mở thẳng vào hướng giải này (link chia sẻ)
+    onReanalyze?: () => void; // Gọi lại model, bỏ qua bộ nhớ đệm
+    onCancel?: () => void;    // Dừng yêu cầu đang stream
+    getProvider?: () => ModelProvider; // Model cho hội thoại với gia sư (không có = ẩn khung hỏi đáp)
 }
 
 export type ThemeType = 'default' | 'warm' | 'minimal';
 
-export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onRefine }) => {
+export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onRefine, streaming = false, cachedAt = null, savedAt = null, problemText = '', onImportFile, initialBranchId, onReanalyze, onCancel, getProvider }) => {
     // Phase 1: Selection | Phase 2: Detail
     const [selectedBranchId, setSelectedBranchId] = useState<string | null>(null);
     
     // UI States for Detail View
-    const [activeTab, setActiveTab] = useState<'analysis' | 'proof'>('analysis');
+    const [activeTab, setActiveTab] = useState<'analysis' | 'proof' | 'practice'>('analysis');
     const [viewMode, setViewMode] = useState<'interactive' | 'static' | 'list'>('interactive');
     const [theme, setTheme] = useState<ThemeType>('default');
     
@@ -30,11 +57,102 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
     const [feedback, setFeedback] = useState<string>('');
     const [isRefineExpanded, setIsRefineExpanded] = useState<boolean>(false);
     const [selectedKnowledge, setSelectedKnowledge] = useState<KnowledgeItem | null>(null);
+    // Kết quả cũ (trong bộ nhớ đệm) chưa có catalog_id -> tra lại theo tên
+    const knowledgeEntry = selectedKnowledge
+        ? getCatalogEntry(selectedKnowledge.catalog_id) || findCatalogEntry(selectedKnowledge.name)
+        : undefined;
     const [selectedNode, setSelectedNode] = useState<LogicNode | null>(null);
+    const [practiceScores, setPracticeScores] = useState<Record<string, PracticeScore>>({}); // Điểm luyện tập tốt nhất theo hướng giải
+    const [hoveredStepNodeId, setHoveredStepNodeId] = useState<string | null>(null); // Node của bước lời giải đang rê chuột
+    const [hintMode, setHintMode] = useState<boolean>(false); // Gia sư chỉ gợi ý dần, không nói hết ngay
+    const [revealedHints, setRevealedHints] = useState<Record<string, Record<string, number>>>({}); // Số gợi ý đã mở: hướng giải -> node
+    const [tutorChats, setTutorChats] = useState<Record<string, TutorMessage[]>>({}); // Hội thoại theo "hướng giải:node"
+    const [tutorPending, setTutorPending] = useState<string | null>(null);
+    const [tutorError, setTutorError] = useState<{ key: string; message: string } | null>(null);
+    const tutorAbortRef = useRef<AbortController | null>(null); // Câu hỏi gia sư đang chờ trả lời
+    const [shareStatus, setShareStatus] = useState<string | null>(null);
+    const [showWorksheet, setShowWorksheet] = useState<boolean>(false); // Bản xem trước để in hướng giải đang xem
 
     // Derived State
     const branches = data.branches || [];
-    const activeBranch = branches.find(b => b.id === selectedBranchId) || null;
+    const activeBranch = branches.find(b => b.id === selectedBranchId && !b.pending) || null;
+    const figureHighlight = selectedNode ? findFigureReferences(selectedNode.statement, data.figure) : undefined;
+    // Hai phép kiểm tra duyệt cả cây (và dựng lại hình) nên chỉ chạy lại khi kết quả hoặc hướng giải đổi
+    const compliance = useMemo(() => activeBranch ? checkCompliance(activeBranch.root, data.grade) : {}, [data, activeBranch]);
+    const complianceCount = Object.keys(compliance).length;
+    const numericReport = useMemo(() => activeBranch ? checkTreeNumerically(data, activeBranch.root) : null, [data, activeBranch]);
+    const numericFailures = numericReport ? Object.values(numericReport.checks).filter(c => c.status === 'fail').length : 0;
+    const proofSteps = activeBranch?.proof_steps || [];
+    const selectedStepIndex = selectedNode ? proofSteps.findIndex(step => step.node_id === selectedNode.id) : -1;
+    const proofNodeIndex = activeBranch && proofSteps.length > 0 ? indexNodes(activeBranch.root) : null;
+    const hintLevels = activeBranch ? revealedHints[activeBranch.id] || {} : {};
+    const branchComplianceCounts: Record<string, number> = useMemo(() => Object.fromEntries(
+        branches.map(b => [b.id, b.pending ? 0 : Object.keys(checkCompliance(b.root, data.grade)).length])
+    ), [data]);
+
+    const askTutorAbout = async (node: LogicNode, question: string) => {
+        if (!activeBranch || !getProvider) return;
+        const key = `${activeBranch.id}:${node.id}`;
+        const history: TutorMessage[] = [...(tutorChats[key] || []), { role: 'student', text: question }];
+        tutorAbortRef.current?.abort();
+        const controller = new AbortController();
+        tutorAbortRef.current = controller;
+        setTutorChats(prev => ({ ...prev, [key]: history }));
+        setTutorPending(key);
+        setTutorError(null);
+        try {
+            const reply = await askTutor(getProvider(), { data, branch: activeBranch, nodeId: node.id, history }, controller.signal);
+            setTutorChats(prev => ({ ...prev, [key]: [...(prev[key] || []), { role: 'tutor', text: reply }] }));
+        } catch (err: any) {
+            const tutorFailure = toAnalysisError(err);
+            if (tutorFailure.kind !== 'cancelled') setTutorError({ key, message: tutorFailure.message });
+        } finally {
+            if (tutorAbortRef.current === controller) {
+                tutorAbortRef.current = null;
+                setTutorPending(null);
+            }
+        }
+    };
+
+    // Chia sẻ: sao chép link chứa toàn bộ bài (kèm hướng giải đang xem); bài quá dài thì tải tệp thay thế
+    const handleShare = async () => {
+        const notify = (message: string) => {
+            setShareStatus(message);
+            setTimeout(() => setShareStatus(current => current === message ? null : current), 5000);
+        };
+        try {
+            const url = isShareSupported() ? await buildShareUrl(data, problemText, activeBranch?.id) : null;
+            if (!url || url.length > MAX_SHARE_URL_LENGTH) {
+                downloadGeosolverFile(data, problemText);
+                notify(url
+                    ? `Bài quá dài để gửi bằng link, đã tải tệp ${GEOSOLVER_EXTENSION} để gửi thay.`
+                    : `Trình duyệt không hỗ trợ tạo link, đã tải tệp ${GEOSOLVER_EXTENSION} để gửi thay.`);
+                return;
+            }
+            try {
+                await navigator.clipboard.writeText(url);
+                notify("Đã sao chép link chia sẻ. Dán vào nhóm lớp để gửi cho học sinh.");
+            } catch (e) {
+                window.prompt("Sao chép link chia sẻ:", url);
+            }
+        } catch (err: any) {
+            notify(`Không tạo được link chia sẻ: ${err?.message || err}`);
+        }
+    };
+
+    const shareToast = shareStatus && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[60] max-w-md px-4 py-3 rounded-2xl bg-gray-900 text-white text-sm shadow-2xl animate-fade-in">
+            🔗 {shareStatus}
+        </div>
+    );
+
+    const revealHint = (nodeId: string) => {
+        if (!activeBranch) return;
+        setRevealedHints(prev => {
+            const levels = prev[activeBranch.id] || {};
+            return { ...prev, [activeBranch.id]: { ...levels, [nodeId]: (levels[nodeId] || 0) + 1 } };
+        });
+    };
 
     // --- LOGIC: Detect if branches represent "Parts" (a, b, c) or "Methods" (Method 1, 2) ---
     // Heuristic: If branch names start with "Câu", "Ý", "Phần", or "a)", "b)", treat as Parts.
@@ -44,17 +162,34 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
     );
 
     // Effects
+    const wasStreamingRef = useRef<boolean>(streaming);
     useEffect(() => {
-        // When data changes, reset selection
-        setSelectedBranchId(null);
+        if (streaming || wasStreamingRef.current) {
+            // Stream updates the same analysis: keep the selection while that branch still exists
+            setSelectedBranchId(prev => prev && branches.some(b => b.id === prev && !b.pending) ? prev : null);
+        } else {
+            // When data changes, reset selection (a shared link may point straight at one branch)
+            setSelectedBranchId(initialBranchId && branches.some(b => b.id === initialBranchId && !b.pending) ? initialBranchId : null);
+        }
+        wasStreamingRef.current = streaming;
     }, [data]);
 
     useEffect(() => {
         if (activeBranch) {
             setSelectedNode(activeBranch.root);
             setActiveTab('analysis'); // Reset to analysis tab when entering a branch
+            setShowWorksheet(false);
         }
-    }, [activeBranch]);
+    }, [activeBranch?.id]);
+
+    // Đổi node / hướng giải (hoặc rời trang kết quả) thì hủy câu hỏi gia sư đang chờ
+    useEffect(() => () => tutorAbortRef.current?.abort(), [selectedNode?.id, activeBranch?.id]);
+
+    // Chọn một node -> cuộn tới bước lời giải chứng minh node đó
+    useEffect(() => {
+        if (activeTab !== 'proof' || selectedStepIndex < 0) return;
+        document.getElementById(`proof-step-${selectedStepIndex}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }, [activeTab, selectedStepIndex]);
 
     const handleRefineSubmit = () => {
         if (feedback.trim() && onRefine) {
@@ -72,14 +207,28 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
         }
     };
 
-    // Component: Tutor Content (Reusable)
-    const TutorContent = ({ node, isMobile = false }: { node: LogicNode, isMobile?: boolean }) => (
+    // Tutor Content (Reusable). Gọi như hàm, không dùng như component: component khai báo trong lúc render
+    // bị React coi là loại mới mỗi lần render nên TutorChat bên trong mất nội dung đang gõ và focus
+    const renderTutorContent = (node: LogicNode, isMobile: boolean = false) => {
+        const methodEntry = resolveNodeKnowledge(node, data);
+        const hints = hintMode && activeBranch
+            ? buildHintLadder(node, data, indexNodes(activeBranch.root), activeBranch.grounding?.[node.id])
+            : [];
+        const revealed = Math.min(hintLevels[node.id] || 0, hints.length);
+        return (
         <div className={`space-y-4 flex-grow animate-fade-in ${isMobile ? 'pb-safe' : ''}`}>
              <div className="flex items-center gap-2 mb-2 border-b border-indigo-100 pb-2">
                 <div className="w-6 h-6 bg-indigo-100 text-indigo-600 rounded-full flex items-center justify-center text-sm">👩‍🏫</div>
                 <h3 className="font-bold text-indigo-900 text-sm">Góc Gia Sư</h3>
+                <button
+                    onClick={() => setHintMode(!hintMode)}
+                    className={`ml-auto px-2 py-0.5 rounded-lg text-[11px] font-bold border transition-all ${hintMode ? 'bg-sky-500 text-white border-sky-500' : 'bg-white text-sky-600 border-sky-200 hover:bg-sky-50'}`}
+                    title="Chỉ gợi ý từng bậc thay vì nói hết lý do và định lý"
+                >
+                    💡 Gợi ý dần
+                </button>
                 {isMobile && (
-                    <button onClick={() => setSelectedNode(null)} className="ml-auto text-gray-400 p-1">✕</button>
+                    <button onClick={() => setSelectedNode(null)} className="text-gray-400 p-1">✕</button>
                 )}
             </div>
 
@@ -90,6 +239,24 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
                 </div>
             </div>
 
+            {hintMode ? (
+                <div className="bg-sky-50 p-3 rounded-xl border border-sky-100 space-y-2">
+                    <p className="text-[10px] font-bold text-sky-600">💡 Gợi ý từng bậc ({revealed}/{hints.length})</p>
+                    {hints.slice(0, revealed).map(hint => (
+                        <div key={hint.level} className="bg-white px-3 py-2 rounded-lg border border-sky-100">
+                            <p className="text-[10px] font-bold text-sky-500 uppercase">{hint.level}. {hint.label}</p>
+                            <div className="text-sm text-sky-900"><MathDisplay text={hint.text} /></div>
+                        </div>
+                    ))}
+                    {revealed < hints.length ? (
+                        <button onClick={() => revealHint(node.id)} className="w-full px-3 py-1.5 rounded-lg bg-sky-500 text-white text-xs font-bold hover:bg-sky-600">
+                            Gợi ý tiếp: {hints[revealed].label} →
+                        </button>
+                    ) : (
+                        <p className="text-xs text-sky-700">Đã mở hết gợi ý cho bước này.</p>
+                    )}
+                </div>
+            ) : (<>
             <div className="relative bg-white p-3 md:p-4 rounded-xl rounded-tl-none border border-indigo-100 shadow-sm ml-2">
                 {!isMobile && <div className="absolute top-0 left-[-8px] w-2 h-2 bg-white border-l border-t border-indigo-100 transform -rotate-45"></div>}
                 <p className="text-sm text-gray-600 leading-relaxed">
@@ -103,22 +270,77 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
                 </p>
             </div>
 
-            {node.method && (
+            {activeBranch?.grounding?.[node.id] && (
+                <div className={`px-3 py-2 rounded-xl border ${activeBranch.grounding[node.id] === 'ungrounded' ? 'bg-orange-50 border-orange-200 text-orange-800' : 'bg-gray-50 border-gray-100 text-gray-600'}`}>
+                    <p className="text-[10px] font-bold mb-0.5">
+                        {GROUNDING_LABELS[activeBranch.grounding[node.id]].icon} Nguồn gốc: {GROUNDING_LABELS[activeBranch.grounding[node.id]].label}
+                    </p>
+                    <p className="text-xs">{GROUNDING_LABELS[activeBranch.grounding[node.id]].hint}</p>
+                </div>
+            )}
+            </>)}
+            {numericReport?.checks[node.id]?.status === 'fail' && (
+                <div className="bg-red-50 p-3 rounded-xl border border-red-200">
+                    <p className="text-[10px] font-bold text-red-600 mb-1">📏 Kiểm tra trên hình: KHÔNG ĐÚNG</p>
+                    <p className="text-sm text-red-800">Đo trên hình dựng từ giả thiết, mệnh đề này không thỏa mãn. Hãy xem lại bước này.</p>
+                    <p className="text-xs text-red-500 mt-1 font-mono break-words">{numericReport.checks[node.id].detail}</p>
+                </div>
+            )}
+            {numericReport?.checks[node.id]?.status === 'pass' && (
+                <div className="bg-emerald-50 px-3 py-2 rounded-xl border border-emerald-100">
+                    <p className="text-[10px] font-bold text-emerald-600">📏 Đúng khi đo trên hình</p>
+                    <p className="text-xs text-emerald-700 font-mono break-words">{numericReport.checks[node.id].detail}</p>
+                </div>
+            )}
+
+            {proofSteps.some(step => step.node_id === node.id) && (
+                <div className="bg-blue-50 px-3 py-2 rounded-xl border border-blue-100 flex items-center justify-between gap-2">
+                    <p className="text-xs text-blue-800">
+                        📝 Được chứng minh ở <span className="font-bold">bước {proofSteps.findIndex(step => step.node_id === node.id) + 1}</span> của lời giải
+                    </p>
+                    <button onClick={() => { setSelectedNode(node); setActiveTab('proof'); }} className="text-xs font-bold text-blue-600 hover:underline shrink-0">
+                        Xem →
+                    </button>
+                </div>
+            )}
+            {compliance[node.id] && (
+                <div className="bg-purple-50 p-3 rounded-xl border border-purple-200">
+                    <p className="text-[10px] font-bold text-purple-600 mb-1">
+                        🎓 {compliance[node.id].kind === 'forbidden' ? 'Ngoài chương trình SGK' : 'Kiến thức lớp trên'}
+                    </p>
+                    <p className="text-sm text-purple-900">{compliance[node.id].detail}</p>
+                    <p className="text-xs text-purple-500 mt-1">Hãy tìm cách khác, hoặc bấm "Gợi ý chỉnh sửa sơ đồ" để yêu cầu hướng giải phù hợp.</p>
+                </div>
+            )}
+            {node.method && !hintMode && (
                 <div className="bg-amber-50 p-3 rounded-xl border border-amber-100">
                     <p className="text-[10px] font-bold text-amber-600 mb-1">🛠️ Căn cứ:</p>
                     <div 
                         className="font-medium text-amber-900 text-sm cursor-pointer hover:underline"
                         onClick={() => {
-                            const k = data.knowledge_used?.find(k => node.method?.includes(k.name));
+                            const k = methodEntry ? catalogKnowledgeItem(methodEntry) : data.knowledge_used?.find(k => node.method?.includes(k.name));
                             if (k) setSelectedKnowledge(k);
                         }}
                     >
                         <MathDisplay text={node.method} />
                     </div>
+                    {methodEntry && (
+                        <p className="text-[11px] text-amber-700 mt-1">📘 {methodEntry.name} · {formatTextbookRef(methodEntry)}</p>
+                    )}
                 </div>
             )}
+            {getProvider && activeBranch && (
+                <TutorChat
+                    key={`${activeBranch.id}:${node.id}`}
+                    messages={tutorChats[`${activeBranch.id}:${node.id}`] || []}
+                    pending={tutorPending === `${activeBranch.id}:${node.id}`}
+                    error={tutorError?.key === `${activeBranch.id}:${node.id}` ? tutorError.message : null}
+                    onSend={(question) => askTutorAbout(node, question)}
+                />
+            )}
         </div>
     );
+    };
 
     // --- VIEW 1: SELECTION (Approaches OR Parts) ---
     if (!selectedBranchId || !activeBranch) {
@@ -134,14 +356,57 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
                 <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl shadow-indigo-100 p-8 border border-white">
                     <div className="flex justify-between items-center mb-6">
                         <h2 className="text-2xl font-extrabold text-gray-800">Tổng quan bài toán</h2>
-                        <button onClick={onReset} className="text-sm text-indigo-600 hover:text-indigo-800 font-semibold">
-                            ← Nhập bài mới
-                        </button>
+                        <div className="flex items-center gap-3">
+                            {streaming && onCancel && (
+                                <button onClick={onCancel} className="px-3 py-1 rounded-lg text-sm font-semibold text-gray-500 bg-white border border-gray-200 hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-all">
+                                    Hủy
+                                </button>
+                            )}
+                            {!streaming && (
+                                <button
+                                    onClick={handleShare}
+                                    className="px-3 py-1 rounded-lg text-sm font-semibold text-gray-600 bg-white border border-gray-200 hover:bg-indigo-50 hover:text-indigo-700 transition-all"
+                                    title="Tạo link mở thẳng bài phân tích này, không cần API key"
+                                >
+                                    🔗 Chia sẻ
+                                </button>
+                            )}
+                            {!streaming && (
+                                <button
+                                    onClick={() => downloadGeosolverFile(data, problemText)}
+                                    className="px-3 py-1 rounded-lg text-sm font-semibold text-gray-600 bg-white border border-gray-200 hover:bg-indigo-50 hover:text-indigo-700 transition-all"
+                                    title="Lưu toàn bộ bài phân tích thành tệp để gửi cho người khác"
+                                >
+                                    ⬇️ Xuất tệp
+                                </button>
+                            )}
+                            {onImportFile && (
+                                <label className="px-3 py-1 rounded-lg text-sm font-semibold text-gray-600 bg-white border border-gray-200 hover:bg-indigo-50 hover:text-indigo-700 transition-all cursor-pointer" title={`Mở tệp ${GEOSOLVER_EXTENSION}`}>
+                                    📂 Mở tệp
+                                    <input
+                                        type="file"
+                                        accept={`${GEOSOLVER_EXTENSION},application/json`}
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            const file = e.target.files?.[0];
+                                            e.target.value = '';
+                                            if (file) onImportFile(file);
+                                        }}
+                                    />
+                                </label>
+                            )}
+                            <button onClick={onReset} className="text-sm text-indigo-600 hover:text-indigo-800 font-semibold">
+                                ← Nhập bài mới
+                            </button>
+                        </div>
                     </div>
                     
                     <div className="grid md:grid-cols-2 gap-6">
                          <div className="bg-blue-50/50 rounded-2xl p-5 border border-blue-100/60">
                             <h3 className="text-xs uppercase tracking-wider text-blue-800 font-bold mb-3">Giả Thiết (GT)</h3>
+                            {streaming && !data.hypothesis?.length && (
+                                <div className="text-sm text-blue-400 animate-pulse">Đang nhận giả thiết...</div>
+                            )}
                             <ul className="space-y-2">
                                 {data.hypothesis?.map((h, i) => (
                                     <li key={i} className="flex gap-2 text-gray-700 text-base">
@@ -154,10 +419,42 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
                         <div className="bg-indigo-50/50 rounded-2xl p-5 border border-indigo-100/60">
                             <h3 className="text-xs uppercase tracking-wider text-indigo-800 font-bold mb-3">Kết Luận (KL)</h3>
                             <div className="text-indigo-900 font-bold text-xl">
-                                <MathDisplay text={data.conclusion} />
+                                {data.conclusion ? (
+                                    <MathDisplay text={data.conclusion} />
+                                ) : streaming && (
+                                    <div className="text-sm font-normal text-indigo-400 animate-pulse">Đang nhận kết luận...</div>
+                                )}
                             </div>
                         </div>
                     </div>
+
+                    {cachedAt && (
+                        <div className="mt-6 flex flex-col md:flex-row md:items-center justify-between gap-3 bg-sky-50 border border-sky-100 rounded-2xl p-4 animate-fade-in">
+                            <span className="text-sm text-sky-800">
+                                ⚡ Kết quả lấy từ bộ nhớ đệm (lưu lúc {new Date(cachedAt).toLocaleString('vi-VN')}), không tốn lượt gọi AI.
+                            </span>
+                            {onReanalyze && (
+                                <button onClick={onReanalyze} className="px-4 py-1.5 bg-white border border-sky-200 hover:bg-sky-100 text-sky-700 rounded-lg text-sm font-semibold w-fit">
+                                    🔄 Phân tích lại
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    {savedAt && (
+                        <div className="mt-6 flex flex-col md:flex-row md:items-center justify-between gap-3 bg-amber-50 border border-amber-100 rounded-2xl p-4 animate-fade-in">
+                            <span className="text-sm text-amber-800">
+                                📚 Mở lại từ thư viện (lưu lúc {new Date(savedAt).toLocaleString('vi-VN')}), không tốn lượt gọi AI.
+                            </span>
+                            {onReanalyze && (
+                                <button onClick={onReanalyze} className="px-4 py-1.5 bg-white border border-amber-200 hover:bg-amber-100 text-amber-700 rounded-lg text-sm font-semibold w-fit">
+                                    🔄 Phân tích lại
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    <DiagnosticsNotice issues={data.diagnostics} />
                 </div>
 
                 {/* Branch Selection Grid */}
@@ -166,7 +463,27 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
                         {isMultiPart ? <span>📚</span> : <span>🤔</span>} {subTitle}
                     </h3>
                     <div className="grid md:grid-cols-2 gap-6">
-                        {branches.map((branch, index) => (
+                        {branches.map((branch, index) => branch.pending ? (
+                            <div key={branch.id} className="bg-white/70 rounded-2xl p-6 border-2 border-dashed border-indigo-200 relative overflow-hidden animate-pulse">
+                                <div className="flex items-start justify-between mb-4">
+                                    <div className="w-12 h-12 rounded-xl bg-indigo-50 border border-indigo-100"></div>
+                                    <span className="px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wide bg-indigo-50 text-indigo-400 border border-indigo-100">
+                                        Đang phân tích...
+                                    </span>
+                                </div>
+                                <h4 className="text-lg font-bold text-gray-500 mb-2">{branch.name}</h4>
+                                {branch.explanation ? (
+                                    <div className="text-sm text-gray-400 mb-4 line-clamp-3 leading-relaxed">
+                                        <MathDisplay text={branch.explanation} />
+                                    </div>
+                                ) : (
+                                    <div className="space-y-2 mb-4">
+                                        <div className="h-3 bg-gray-100 rounded w-full"></div>
+                                        <div className="h-3 bg-gray-100 rounded w-2/3"></div>
+                                    </div>
+                                )}
+                            </div>
+                        ) : (
                             <div 
                                 key={branch.id}
                                 onClick={() => setSelectedBranchId(branch.id)}
@@ -195,20 +512,43 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
                                 <div className="text-sm text-gray-600 mb-4 line-clamp-3 leading-relaxed">
                                     <MathDisplay text={branch.explanation} />
                                 </div>
+                                {branchComplianceCounts[branch.id] > 0 && (
+                                    <div className="text-xs font-semibold text-purple-700 bg-purple-50 border border-purple-100 rounded-lg px-3 py-1.5 mb-4 w-fit">
+                                        ⚠️ {branchComplianceCounts[branch.id]} bước dùng kiến thức ngoài chương trình{data.grade ? ` lớp ${data.grade}` : ''}
+                                    </div>
+                                )}
                                 
+                                {practiceScores[branch.id] && (
+                                    <div className="text-xs font-semibold text-indigo-700 mb-3">
+                                        🧩 Luyện tập: đúng {practiceScores[branch.id].correct}/{practiceScores[branch.id].total}
+                                        {practiceScores[branch.id].hintsUsed > 0 && ` · ${practiceScores[branch.id].hintsUsed} gợi ý · ${formatPoints(practiceScores[branch.id].points)} điểm`}
+                                    </div>
+                                )}
                                 <div className="flex items-center text-indigo-600 font-semibold text-sm group-hover:translate-x-2 transition-transform bg-indigo-50 w-fit px-3 py-1.5 rounded-lg">
                                     {isMultiPart ? "Xem sơ đồ & lời giải" : "🔍 Kiểm tra hướng này"}
                                 </div>
                             </div>
                         ))}
+                        {streaming && !branches.some(b => b.pending) && (
+                            <div className="rounded-2xl p-6 border-2 border-dashed border-gray-200 flex items-center justify-center gap-3 text-sm text-gray-400 animate-pulse min-h-[120px]">
+                                <svg className="animate-spin h-5 w-5 text-indigo-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                                </svg>
+                                Đang nhận thêm hướng giải...
+                            </div>
+                        )}
                     </div>
                 </div>
+                {shareToast}
             </div>
         );
     }
 
     // --- VIEW 2: DETAIL VIEW ---
     const statusInfo = getStatusInfo(activeBranch.status);
+    const ungroundedCount = countUngrounded(activeBranch);
+    const statusDowngraded = !!activeBranch.reported_status && activeBranch.reported_status !== activeBranch.status;
 
     return (
         <div className="w-full max-w-7xl mx-auto space-y-6 animate-fade-in pb-20">
@@ -230,27 +570,57 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
                         </div>
                         <h2 className="text-lg font-bold text-indigo-900">{activeBranch.name}</h2>
                     </div>
+                    {!streaming && (
+                        <button
+                            onClick={handleShare}
+                            className="ml-auto md:ml-2 px-3 py-1.5 rounded-lg text-sm font-semibold text-gray-600 bg-white border border-gray-200 hover:bg-indigo-50 hover:text-indigo-700 transition-all"
+                            title="Tạo link mở thẳng hướng giải này, không cần API key"
+                        >
+                            🔗 Chia sẻ
+                        </button>
+                    )}
+                    {!streaming && (
+                        <button
+                            onClick={() => setShowWorksheet(true)}
+                            className="px-3 py-1.5 rounded-lg text-sm font-semibold text-gray-600 bg-white border border-gray-200 hover:bg-indigo-50 hover:text-indigo-700 transition-all"
+                            title="In, lưu PDF hoặc xuất LaTeX: đề bài, GT/KL, sơ đồ, lời giải và kiến thức sử dụng"
+                        >
+                            🖨️ In
+                        </button>
+                    )}
                 </div>
                 
                 {/* Result Indicator - Visible only inside detail view on desktop */}
-                <div className={`hidden md:flex items-center gap-2 px-3 py-1 rounded-lg border text-sm font-bold ${statusInfo.color}`}>
+                <div
+                    className={`hidden md:flex items-center gap-2 px-3 py-1 rounded-lg border text-sm font-bold ${statusInfo.color}`}
+                    title={statusDowngraded ? `AI báo "${getStatusInfo(activeBranch.reported_status!).label}" nhưng còn ${ungroundedCount} giả thiết chưa có căn cứ` : undefined}
+                >
                    <span>Trạng thái: {statusInfo.label}</span>
                    <span>{statusInfo.icon}</span>
+                   {ungroundedCount > 0 && (
+                       <span className="ml-1 px-1.5 py-0.5 rounded bg-orange-100 text-orange-700 text-[10px] font-bold">❓ {ungroundedCount} chưa có căn cứ</span>
+                   )}
                 </div>
 
                 <div className="flex gap-2 bg-gray-100 p-1 rounded-xl w-full md:w-auto">
                     <button
-                        className={`flex-1 md:flex-none py-2 px-6 rounded-lg text-sm font-bold transition-all ${activeTab === 'analysis' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                        className={`flex-1 md:flex-none py-2 px-3 md:px-6 rounded-lg text-sm font-bold transition-all ${activeTab === 'analysis' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
                         onClick={() => setActiveTab('analysis')}
                     >
                         🔍 Sơ đồ
                     </button>
                     <button
-                        className={`flex-1 md:flex-none py-2 px-6 rounded-lg text-sm font-bold transition-all ${activeTab === 'proof' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                        className={`flex-1 md:flex-none py-2 px-3 md:px-6 rounded-lg text-sm font-bold transition-all ${activeTab === 'proof' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
                         onClick={() => setActiveTab('proof')}
                     >
                         📝 Lời giải
                     </button>
+                    <button
+                        className={`flex-1 md:flex-none py-2 px-3 md:px-6 rounded-lg text-sm font-bold transition-all ${activeTab === 'practice' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                        onClick={() => setActiveTab('practice')}
+                    >
+                        🧩 Luyện tập
+                    </button>
                 </div>
             </div>
             
@@ -273,6 +643,25 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
                             </div>
 
                             <div className="hidden md:flex items-center gap-4 flex-wrap justify-center">
+                                {complianceCount > 0 ? (
+                                    <span className="px-2 py-1 rounded-lg bg-purple-50 border border-purple-200 text-xs font-bold text-purple-700" title="Đối chiếu với danh mục kiến thức SGK theo lớp">
+                                        🎓 {complianceCount} bước ngoài chương trình{data.grade ? ` lớp ${data.grade}` : ''}
+                                    </span>
+                                ) : data.grade && (
+                                    <span className="px-2 py-1 rounded-lg bg-emerald-50 border border-emerald-100 text-xs font-bold text-emerald-600">
+                                        🎓 Đúng chương trình lớp {data.grade}
+                                    </span>
+                                )}
+                                {numericFailures > 0 && (
+                                    <span className="px-2 py-1 rounded-lg bg-red-50 border border-red-200 text-xs font-bold text-red-600" title="Đo trên hình dựng từ giả thiết">
+                                        📏 {numericFailures} bước sai khi đo trên hình
+                                    </span>
+                                )}
+                                {numericReport && numericReport.failedHypotheses.length > 0 && (
+                                    <span className="px-2 py-1 rounded-lg bg-gray-100 border border-gray-200 text-xs text-gray-500" title={numericReport.failedHypotheses.join('\n')}>
+                                        📏 Hình vẽ chưa khớp giả thiết, bỏ qua kiểm tra số
+                                    </span>
+                                )}
                                 {viewMode === 'interactive' && (
                                     <div className="flex items-center bg-white rounded-lg border border-gray-200 p-1">
                                         <button onClick={() => setShowAnalysisArrows(true)} className={`px-2 py-1 rounded text-xs font-bold transition-all ${showAnalysisArrows ? 'bg-indigo-100 text-indigo-700' : 'text-gray-400'}`}>
@@ -304,6 +693,9 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
                                             theme={theme}
                                             onNodeSelect={(node) => setSelectedNode(node)}
                                             selectedNodeId={selectedNode?.id}
+                                            nodeChecks={numericReport?.checks}
+                                            grounding={activeBranch.grounding}
+                                            compliance={compliance}
                                         />
                                     )}
                                     {viewMode === 'static' && (
@@ -313,22 +705,24 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
                                             theme={theme}
                                             showAnalysisArrows={showAnalysisArrows}
                                             showProofArrows={showProofArrows}
+                                            grounding={activeBranch.grounding}
                                         />
                                     )}
                                     {viewMode === 'list' && (
                                         <div className="w-full h-full overflow-y-auto max-w-2xl bg-white p-6 rounded-xl shadow-lg border border-gray-100">
-                                            <TreeVisualizer node={activeBranch.root} theme={theme} />
+                                            <TreeVisualizer node={activeBranch.root} theme={theme} grounding={activeBranch.grounding} compliance={compliance} />
                                         </div>
                                     )}
                                 </div>
                             </div>
 
-                            {/* Tutor Corner (Desktop Sidebar) */}
+                            {/* Figure + Tutor Corner (Desktop Sidebar) */}
                             {viewMode === 'interactive' && (
-                                <div className="hidden lg:block lg:col-span-1">
-                                    <div className="bg-gradient-to-br from-indigo-50 to-white rounded-2xl border border-indigo-100 shadow-lg p-5 h-full flex flex-col sticky top-36">
+                                <div className="lg:col-span-1 flex flex-col gap-4">
+                                    {data.figure && <FigureView figure={data.figure} highlight={figureHighlight} />}
+                                    <div className="hidden lg:flex bg-gradient-to-br from-indigo-50 to-white rounded-2xl border border-indigo-100 shadow-lg p-5 flex-1 flex-col sticky top-36">
                                         {selectedNode ? (
-                                            <TutorContent node={selectedNode} />
+                                            renderTutorContent(selectedNode)
                                         ) : (
                                             <div className="flex flex-col items-center justify-center h-48 text-gray-400 text-center p-4">
                                                 <span className="text-4xl mb-2">👆</span>
@@ -342,7 +736,7 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
                              {/* Tutor Corner (Mobile Bottom Sheet) */}
                              {viewMode === 'interactive' && selectedNode && (
                                 <div className="lg:hidden fixed bottom-0 left-0 right-0 z-[60] bg-white rounded-t-3xl shadow-[0_-4px_20px_rgba(0,0,0,0.1)] border-t border-gray-100 p-5 animate-fade-in-up max-h-[50vh] overflow-y-auto">
-                                    <TutorContent node={selectedNode} isMobile={true} />
+                                    {renderTutorContent(selectedNode, true)}
                                 </div>
                             )}
                         </div>
@@ -353,16 +747,20 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
                                 <span>📚</span> Kiến thức liên quan <span className="text-xs font-normal text-gray-400">(Bấm để xem)</span>
                             </h3>
                             <div className="grid sm:grid-cols-2 gap-3">
-                                {data.knowledge_used?.map((k, i) => (
-                                    <div key={i} onClick={() => setSelectedKnowledge(k)} className="group cursor-pointer p-3 rounded-xl bg-white border border-gray-200 hover:border-indigo-400 hover:bg-indigo-50/30 transition-all">
-                                        <div className="font-bold text-indigo-900 text-sm mb-1">{k.name}</div>
-                                        <div className="text-xs text-indigo-600">{k.textbook_ref}</div>
-                                    </div>
-                                ))}
+                                {data.knowledge_used?.map((k, i) => {
+                                    const entry = getCatalogEntry(k.catalog_id) || findCatalogEntry(k.name);
+                                    return (
+                                        <div key={i} onClick={() => setSelectedKnowledge(k)} className="group cursor-pointer p-3 rounded-xl bg-white border border-gray-200 hover:border-indigo-400 hover:bg-indigo-50/30 transition-all">
+                                            <div className="font-bold text-indigo-900 text-sm mb-1">{entry ? entry.name : k.name}</div>
+                                            <div className="text-xs text-indigo-600">{entry ? formatTextbookRef(entry) : k.textbook_ref}</div>
+                                        </div>
+                                    );
+                                })}
                             </div>
                         </div>
 
                         {/* Refine Section */}
+                        {onRefine && (
                          <div className={`mt-2 transition-all duration-300 border rounded-2xl overflow-hidden ${isRefineExpanded ? 'bg-amber-50 border-amber-200' : 'bg-white border-gray-200'}`}>
                             <div className="flex justify-between items-center p-4 cursor-pointer hover:bg-gray-50" onClick={() => setIsRefineExpanded(!isRefineExpanded)}>
                                 <span className="text-sm font-bold text-gray-700">✍️ Gợi ý chỉnh sửa sơ đồ này</span>
@@ -379,7 +777,22 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
                                 </div>
                             )}
                         </div>
+                        )}
                     </div>
+                ) : activeTab === 'practice' ? (
+                    <PracticeMode
+                        key={activeBranch.id}
+                        branch={activeBranch}
+                        data={data}
+                        bestScore={practiceScores[activeBranch.id]}
+                        hintLevels={hintLevels}
+                        onRevealHint={revealHint}
+                        onRestart={() => setRevealedHints(prev => ({ ...prev, [activeBranch.id]: {} }))}
+                        onComplete={(score) => setPracticeScores(prev => {
+                            const best = prev[activeBranch.id];
+                            return best && best.points >= score.points ? prev : { ...prev, [activeBranch.id]: score };
+                        })}
+                    />
                 ) : (
                     // PROOF TAB CONTENT
                     <div className="prose prose-indigo max-w-none animate-fade-in">
@@ -390,9 +803,52 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
                                     {activeBranch.name}
                                 </span>
                             </h3>
-                            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-                                <MathDisplay text={activeBranch.forward_proof || "Đang cập nhật lời giải..."} block={true} />
-                            </div>
+                            {proofSteps.length > 0 ? (
+                                // Structured proof: each step is linked to the node it establishes
+                                <div className="grid gap-6 lg:grid-cols-2 not-prose">
+                                    <ol className="bg-white p-4 md:p-6 rounded-xl shadow-sm border border-gray-100 space-y-2">
+                                        {proofSteps.map((step, i) => {
+                                            const stepNode = step.node_id ? proofNodeIndex?.get(step.node_id) : undefined;
+                                            const isActive = i === selectedStepIndex || (!!step.node_id && step.node_id === hoveredStepNodeId);
+                                            return (
+                                                <li
+                                                    key={i}
+                                                    id={`proof-step-${i}`}
+                                                    onMouseEnter={() => setHoveredStepNodeId(step.node_id || null)}
+                                                    onMouseLeave={() => setHoveredStepNodeId(null)}
+                                                    onClick={() => stepNode && setSelectedNode(stepNode)}
+                                                    className={`flex gap-3 p-3 rounded-lg border transition-all ${stepNode ? 'cursor-pointer' : ''} ${isActive ? 'bg-indigo-50 border-indigo-300 ring-2 ring-indigo-100' : 'border-transparent hover:bg-gray-50'}`}
+                                                >
+                                                    <span className={`w-6 h-6 shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${isActive ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-500'}`}>
+                                                        {i + 1}
+                                                    </span>
+                                                    <div className="min-w-0">
+                                                        <div className="text-gray-900 font-medium"><MathDisplay text={step.statement} /></div>
+                                                        {step.justification && (
+                                                            <div className="text-sm text-gray-500 italic">(<MathDisplay text={step.justification} />)</div>
+                                                        )}
+                                                    </div>
+                                                </li>
+                                            );
+                                        })}
+                                    </ol>
+                                    <div className="hidden lg:block bg-white rounded-xl border border-gray-200 shadow-sm h-[60vh] sticky top-36 overflow-hidden relative bg-[radial-gradient(#e5e7eb_1px,transparent_1px)] [background-size:16px_16px]">
+                                        <InteractiveMindMap
+                                            key={activeBranch.id + theme + 'proof'}
+                                            data={activeBranch.root}
+                                            direction="down"
+                                            theme={theme}
+                                            onNodeSelect={(node) => setSelectedNode(node)}
+                                            selectedNodeId={hoveredStepNodeId || selectedNode?.id}
+                                            grounding={activeBranch.grounding}
+                                        />
+                                    </div>
+                                </div>
+                            ) : (
+                                <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+                                    <MathDisplay text={activeBranch.forward_proof || "Đang cập nhật lời giải..."} block={true} />
+                                </div>
+                            )}
                         </div>
                     </div>
                 )}
@@ -403,19 +859,33 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, onReset, onR
                 <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-gray-900/60 backdrop-blur-sm animate-fade-in" onClick={() => setSelectedKnowledge(null)}>
                     <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full overflow-hidden animate-fade-in-up border border-white/20" onClick={(e) => e.stopPropagation()}>
                         <div className="bg-indigo-600 p-5 flex justify-between items-start">
-                            <h3 className="text-lg font-bold text-white pr-4"><MathDisplay text={selectedKnowledge.name} /></h3>
+                            <h3 className="text-lg font-bold text-white pr-4"><MathDisplay text={knowledgeEntry ? knowledgeEntry.name : selectedKnowledge.name} /></h3>
                             <button onClick={() => setSelectedKnowledge(null)} className="text-white/70 hover:text-white"><svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>
                         </div>
                         <div className="p-6 overflow-y-auto max-h-[60vh]">
                             <div className="text-gray-700 leading-relaxed text-base">
-                                <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Nội dung:</h4>
-                                <MathDisplay text={selectedKnowledge.description} block={true} />
+                                <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Nội dung{knowledgeEntry ? ' (theo SGK)' : ''}:</h4>
+                                <MathDisplay text={knowledgeEntry ? knowledgeEntry.statement : selectedKnowledge.description} block={true} />
+                            </div>
+                            {/* Cách diễn đạt của lời giải, chỉ hiện khi khác với SGK */}
+                            {knowledgeEntry && selectedKnowledge.description && selectedKnowledge.description !== knowledgeEntry.statement && (
+                                <div className="mt-4 p-3 rounded-xl bg-gray-50 border border-gray-100 text-sm text-gray-500">
+                                    <h4 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Diễn đạt trong lời giải:</h4>
+                                    <MathDisplay text={selectedKnowledge.description} />
+                                </div>
+                            )}
+                            <div className="mt-6 pt-4 border-t border-gray-100 text-sm font-semibold text-indigo-700">
+                                Nguồn: {knowledgeEntry ? formatTextbookRef(knowledgeEntry) : selectedKnowledge.textbook_ref}
+                                {knowledgeEntry && <div className="text-xs font-normal text-gray-500 mt-0.5">{knowledgeEntry.lesson}</div>}
                             </div>
-                            <div className="mt-6 pt-4 border-t border-gray-100 text-sm font-semibold text-indigo-700">Nguồn: {selectedKnowledge.textbook_ref}</div>
                         </div>
                     </div>
                 </div>
             )}
+            {showWorksheet && (
+                <PrintableWorksheet data={data} branch={activeBranch} problemText={problemText} onClose={() => setShowWorksheet(false)} />
+            )}
+            {shareToast}
         </div>
     );
 };
\ No newline at end of file
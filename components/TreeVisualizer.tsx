@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
-import { LogicNode, AnalysisType } from '../types';
+import { LogicNode, AnalysisType, LeafGrounding } from '../types';
 import { MathDisplay } from './MathDisplay';
+import { indexNodes, resolveRefs } from '../services/logicGraph';
+import { ComplianceIssue } from '../services/curriculumChecker';
 
 // Import type locally to avoid circular dep if types aren't in types.ts
 type ThemeType = 'default' | 'warm' | 'minimal';
@@ -11,20 +13,38 @@ interface TreeVisualizerProps {
     isLast?: boolean;
     showTheory?: boolean;
     theme?: ThemeType;
+    grounding?: Record<string, LeafGrounding>; // Nguồn gốc các LEAF theo node id
+    nodeIndex?: Map<string, LogicNode>;         // Dùng để hiển thị các tiền đề dùng lại (refs)
+    compliance?: Record<string, ComplianceIssue>; // Bước dùng kiến thức ngoài chương trình theo lớp
 }
 
+// Cuộn tới node gốc của một tham chiếu và nháy sáng để người đọc thấy
+const scrollToNode = (id: string) => {
+    const el = document.getElementById(`tree-node-${id}`);
+    if (!el) return;
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    el.classList.add('ring-4', 'ring-indigo-200');
+    setTimeout(() => el.classList.remove('ring-4', 'ring-indigo-200'), 1500);
+};
+
 export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({ 
     node, 
     depth = 0, 
     isLast = true,
     showTheory = true,
-    theme = 'default'
+    theme = 'default',
+    grounding,
+    nodeIndex,
+    compliance
 }) => {
     const [expanded, setExpanded] = useState(true);
 
     if (!node) return null;
 
-    const hasChildren = Array.isArray(node.children) && node.children.length > 0;
+    const index = nodeIndex || indexNodes(node);
+    const refNodes = resolveRefs(node, index);
+    const childCount = (node.children?.length ?? 0) + refNodes.length;
+    const hasChildren = childCount > 0;
     const isRoot = node.type === AnalysisType.ROOT;
     const isLeaf = node.type === AnalysisType.LEAF;
 
@@ -84,6 +104,14 @@ export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
         }
     }
 
+    if (grounding?.[node.id] === 'ungrounded') {
+        borderColor = theme === 'minimal' ? 'border-l-black border-dashed' : 'border-l-orange-500 border-dashed';
+        bgColor = theme === 'minimal' ? 'bg-white border border-dashed border-gray-400' : 'bg-orange-50 border border-dashed border-orange-300';
+        textColor = theme === 'minimal' ? 'text-black' : 'text-orange-900';
+        icon = '❓';
+        label = 'Chưa có căn cứ (không khớp giả thiết / kiến thức đã học):';
+    }
+
     return (
         <div className={`relative ${depth > 0 ? 'ml-6 md:ml-10' : ''}`}>
             {/* Connector lines */}
@@ -101,7 +129,7 @@ export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
             )}
             
             {/* Node Card */}
-            <div className={`mb-4 rounded-lg border-l-4 ${borderColor} shadow-sm ${bgColor} p-4 transition-all duration-200 hover:shadow-md`}>
+            <div id={`tree-node-${node.id}`} className={`mb-4 rounded-lg border-l-4 ${borderColor} shadow-sm ${bgColor} p-4 transition-all duration-200 hover:shadow-md`}>
                 <div 
                     className="flex items-start justify-between cursor-pointer" 
                     onClick={() => setExpanded(!expanded)}
@@ -127,6 +155,12 @@ export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
                                 </div>
                             )}
 
+                            {compliance?.[node.id] && (
+                                <div className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-semibold border mb-2 ml-1 bg-purple-50 text-purple-700 border-purple-200" title={compliance[node.id].detail}>
+                                    🎓 {compliance[node.id].kind === 'forbidden' ? 'Ngoài chương trình SGK' : 'Kiến thức lớp trên'}
+                                </div>
+                            )}
+
                             {/* Reasoning / Question */}
                             {node.reason && (
                                 <div className="text-sm text-gray-600 italic flex items-start gap-1">
@@ -155,16 +189,40 @@ export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
             {/* Children */}
             {expanded && hasChildren && (
                 <div className="border-l-2 border-gray-200 ml-4 md:ml-0 pl-0 md:pl-0 border-opacity-0"> 
-                    {node.children?.map((child, index) => (
+                    {node.children?.map((child, i) => (
                         <TreeVisualizer 
-                            key={child.id || index} 
+                            key={child.id || i} 
                             node={child} 
                             depth={depth + 1}
-                            isLast={index === (node.children?.length ?? 0) - 1}
+                            isLast={i === childCount - 1}
                             showTheory={showTheory}
                             theme={theme}
+                            grounding={grounding}
+                            nodeIndex={index}
+                            compliance={compliance}
                         />
                     ))}
+                    {/* Shared premises are drawn once; here they appear as links back to the original card */}
+                    {refNodes.map((ref, i) => {
+                        const isLastRef = (node.children?.length ?? 0) + i === childCount - 1;
+                        return (
+                            <div key={`ref-${ref.id}`} className="relative ml-6 md:ml-10">
+                                <div className="absolute -left-6 md:-left-10 top-5 w-6 md:w-10 border-t-2 border-dashed border-gray-300" aria-hidden="true" />
+                                {!isLastRef && (
+                                    <div className="absolute -left-6 md:-left-10 top-5 bottom-0 w-0 border-l-2 border-gray-200" aria-hidden="true" />
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={() => scrollToNode(ref.id)}
+                                    className="mb-4 w-full text-left rounded-lg border border-dashed border-indigo-200 bg-indigo-50/40 px-4 py-2 text-sm text-indigo-800 hover:bg-indigo-50 transition-colors"
+                                    title="Tiền đề dùng chung: bấm để tới ô gốc"
+                                >
+                                    <span className="font-semibold mr-1">🔗 Dùng lại:</span>
+                                    <MathDisplay text={ref.statement} />
+                                </button>
+                            </div>
+                        );
+                    })}
                 </div>
             )}
         </div>
@@ -0,0 +1,68 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { TutorMessage } from '../types';
+import { MathDisplay } from './MathDisplay';
+
+interface TutorChatProps {
+    messages: TutorMessage[];
+    pending: boolean;        // Đang chờ gia sư trả lời
+    error?: string | null;
+    onSend: (question: string) => void;
+}
+
+const STARTERS = ["Tại sao lại cần bước này?", "Em nên bắt đầu từ đâu?", "Dùng kiến thức nào ở đây?"];
+
+export const TutorChat: React.FC<TutorChatProps> = ({ messages, pending, error, onSend }) => {
+    const [draft, setDraft] = useState('');
+    const listRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+    }, [messages.length, pending]);
+
+    const send = (text: string) => {
+        if (pending || !text.trim()) return;
+        onSend(text.trim());
+        setDraft('');
+    };
+
+    return (
+        <div className="bg-white rounded-xl border border-indigo-100 shadow-sm overflow-hidden">
+            <p className="px-3 py-2 text-[10px] font-bold text-indigo-500 uppercase border-b border-indigo-50">💬 Hỏi gia sư về bước này</p>
+
+            <div ref={listRef} className="max-h-64 overflow-y-auto p-3 space-y-2">
+                {messages.length === 0 && !pending && (
+                    <div className="flex flex-wrap gap-1.5">
+                        {STARTERS.map(q => (
+                            <button key={q} onClick={() => send(q)} className="px-2 py-1 rounded-full bg-indigo-50 text-indigo-600 text-[11px] font-medium hover:bg-indigo-100">
+                                {q}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {messages.map((m, i) => (
+                    <div key={i} className={`flex ${m.role === 'student' ? 'justify-end' : 'justify-start'}`}>
+                        <div className={`max-w-[85%] px-3 py-2 rounded-2xl text-sm ${m.role === 'student' ? 'bg-indigo-600 text-white rounded-br-sm' : 'bg-gray-50 text-gray-800 border border-gray-100 rounded-bl-sm'}`}>
+                            <MathDisplay text={m.text} />
+                        </div>
+                    </div>
+                ))}
+                {pending && (
+                    <div className="text-xs text-gray-400 animate-pulse">Gia sư đang suy nghĩ...</div>
+                )}
+                {error && <p className="text-xs text-red-600">⚠️ {error}</p>}
+            </div>
+
+            <form className="flex gap-2 p-2 border-t border-indigo-50" onSubmit={(e) => { e.preventDefault(); send(draft); }}>
+                <input
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    placeholder="Ví dụ: Tại sao lại cần AM ⊥ BC?"
+                    className="flex-1 min-w-0 px-3 py-1.5 rounded-lg border border-gray-200 text-sm outline-none focus:border-indigo-400"
+                />
+                <button type="submit" disabled={pending || !draft.trim()} className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-sm font-bold disabled:opacity-40">
+                    Gửi
+                </button>
+            </form>
+        </div>
+    );
+};
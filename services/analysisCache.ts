@@ -0,0 +1,159 @@
+import { GeometryResponse, GradeLevel } from '../types';
+import { analyzeGeometryProblem, AnalyzeOptions } from './geminiService';
+import { ModelImage } from './modelProviders';
+import { openDatabase, requestToPromise, transactionDone, isIndexedDbAvailable } from './indexedDb';
+
+// Bộ nhớ đệm kết quả phân tích trong IndexedDB.
+// Khóa = SHA-256 của (provider, đề bài đã chuẩn hóa, dữ liệu các ảnh, gợi ý chỉnh sửa, lớp đã chọn).
+
+const DB_NAME = 'geosolver-cache';
+const DB_VERSION = 1;
+const STORE = 'analyses';
+
+export const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 ngày
+export const CACHE_MAX_ENTRIES = 100;
+export const CACHE_MAX_BYTES = 10 * 1024 * 1024;    // ~10 MB (ước lượng theo độ dài JSON)
+
+interface CacheEntry {
+    key: string;
+    data: GeometryResponse;
+    createdAt: number;
+    lastAccess: number;
+    size: number;
+}
+
+export interface CachedAnalyzeOptions extends AnalyzeOptions {
+    forceRefresh?: boolean; // Bỏ qua kết quả đã lưu, luôn gọi model
+}
+
+export interface CachedAnalysisResult {
+    data: GeometryResponse;
+    cachedAt: number | null; // Thời điểm lưu nếu lấy từ cache, null nếu vừa gọi model
+}
+
+const openCacheDb = () => openDatabase(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'key' });
+    }
+});
+
+// Chuẩn hóa đề: Unicode NFC, gộp khoảng trắng, bỏ khoảng trắng đầu/cuối
+export const normalizeProblemText = (text: string): string =>
+    (text || '').normalize('NFC').replace(/\s+/g, ' ').trim();
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const hashAnalysisInput = async (providerId: string, text: string, images: ModelImage[] = [], feedback?: string, grade?: GradeLevel): Promise<string> => {
+    // Dùng ký tự phân cách \u0000 để các trường không thể "dính" sang nhau
+    const imageParts = images.map(img => `${img.mimeType};${img.data}`);
+    const parts = [providerId, normalizeProblemText(text), ...imageParts, normalizeProblemText(feedback || '')];
+    // Chỉ thêm khi có chọn lớp để khóa cũ (chưa có lớp) vẫn dùng được
+    if (grade) parts.push(`grade:${grade}`);
+    const payload = parts.join('\u0000');
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+    return toHex(digest);
+};
+
+export const getCachedAnalysis = async (key: string): Promise<CacheEntry | null> => {
+    const db = await openCacheDb();
+    try {
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        const entry = await requestToPromise<CacheEntry | undefined>(store.get(key));
+
+        if (!entry) return null;
+        if (Date.now() - entry.createdAt > CACHE_TTL_MS) {
+            store.delete(key);
+            await transactionDone(tx);
+            return null;
+        }
+
+        entry.lastAccess = Date.now();
+        store.put(entry);
+        await transactionDone(tx);
+        return entry;
+    } finally {
+        db.close();
+    }
+};
+
+export const putCachedAnalysis = async (key: string, data: GeometryResponse): Promise<void> => {
+    const db = await openCacheDb();
+    try {
+        const now = Date.now();
+        const entry: CacheEntry = { key, data, createdAt: now, lastAccess: now, size: JSON.stringify(data).length };
+
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        store.put(entry);
+
+        // Dọn mục hết hạn, sau đó xóa mục ít dùng nhất cho tới khi nằm trong giới hạn
+        const all = await requestToPromise<CacheEntry[]>(store.getAll());
+        const alive = all.filter(e => {
+            if (now - e.createdAt > CACHE_TTL_MS) {
+                store.delete(e.key);
+                return false;
+            }
+            return true;
+        });
+        alive.sort((a, b) => a.lastAccess - b.lastAccess);
+
+        let totalBytes = alive.reduce((sum, e) => sum + e.size, 0);
+        let count = alive.length;
+        for (const e of alive) {
+            if (count <= CACHE_MAX_ENTRIES && totalBytes <= CACHE_MAX_BYTES) break;
+            if (e.key === key) continue;
+            store.delete(e.key);
+            count--;
+            totalBytes -= e.size;
+        }
+
+        await transactionDone(tx);
+    } finally {
+        db.close();
+    }
+};
+
+export const clearAnalysisCache = async (): Promise<void> => {
+    const db = await openCacheDb();
+    try {
+        const tx = db.transaction(STORE, 'readwrite');
+        tx.objectStore(STORE).clear();
+        await transactionDone(tx);
+    } finally {
+        db.close();
+    }
+};
+
+// Bọc analyzeGeometryProblem: trả kết quả đã lưu nếu có, nếu không thì gọi model rồi lưu lại.
+// Lỗi IndexedDB không bao giờ làm hỏng việc phân tích, chỉ ghi cảnh báo.
+export const analyzeWithCache = async (text: string, images: ModelImage[] = [], feedback?: string, userApiKey?: string, options: CachedAnalyzeOptions = {}): Promise<CachedAnalysisResult> => {
+    const { forceRefresh, ...analyzeOptions } = options;
+    const providerId = options.provider ? `${options.provider.id}:${options.provider.models.join(',')}` : 'gemini';
+
+    let key: string | null = null;
+    if (isIndexedDbAvailable() && typeof crypto !== 'undefined' && crypto.subtle) {
+        try {
+            key = await hashAnalysisInput(providerId, text, images, feedback, options.grade);
+            if (!forceRefresh) {
+                const hit = await getCachedAnalysis(key);
+                if (hit) return { data: hit.data, cachedAt: hit.createdAt };
+            }
+        } catch (e: any) {
+            console.warn('[GeoSolver] Cache read failed:', e?.message);
+        }
+    }
+
+    const data = await analyzeGeometryProblem(text, images, feedback, userApiKey, analyzeOptions);
+
+    if (key) {
+        try {
+            await putCachedAnalysis(key, data);
+        } catch (e: any) {
+            console.warn('[GeoSolver] Cache write failed:', e?.message);
+        }
+    }
+
+    return { data, cachedAt: null };
+};
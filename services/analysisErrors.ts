@@ -0,0 +1,144 @@
+// Phân loại lỗi khi gọi model, để giao diện giải thích rõ ràng và gợi ý cách khắc phục.
+
+export type AnalysisErrorKind =
+    | 'input'        // Người dùng chưa nhập đủ dữ liệu
+    | 'cancelled'    // Người dùng bấm Hủy
+    | 'auth'         // API key sai / không có quyền
+    | 'quota'        // Hết hạn mức / bị giới hạn tốc độ (429)
+    | 'safety'       // Model từ chối vì bộ lọc an toàn
+    | 'network'      // Không kết nối được tới máy chủ
+    | 'timeout'      // Quá thời gian chờ
+    | 'json_syntax'  // Model trả về JSON hỏng
+    | 'empty_tree'   // JSON hợp lệ nhưng không có sơ đồ phân tích
+    | 'file'         // Tệp .geosolver hỏng hoặc không đúng định dạng
+    | 'unknown';
+
+// Một lần thử gọi một model trong chuỗi fallback
+export interface ModelAttempt {
+    providerId: string;
+    modelId: string;
+    durationMs: number;
+    ok: boolean;
+    kind?: AnalysisErrorKind;
+    message?: string;
+}
+
+export class AnalysisError extends Error {
+    kind: AnalysisErrorKind;
+    attempts: ModelAttempt[];
+
+    constructor(kind: AnalysisErrorKind, message: string, attempts: ModelAttempt[] = []) {
+        super(message);
+        this.name = 'AnalysisError';
+        this.kind = kind;
+        this.attempts = attempts;
+    }
+}
+
+// Lỗi tạm thời: nên đợi rồi thử lại chính model đó trước khi chuyển sang model khác
+export const RETRYABLE_KINDS: AnalysisErrorKind[] = ['quota', 'network'];
+
+// Lỗi không phụ thuộc model: dừng cả chuỗi fallback
+export const FATAL_KINDS: AnalysisErrorKind[] = ['auth', 'cancelled', 'input'];
+
+export const classifyError = (error: any): AnalysisErrorKind => {
+    if (error instanceof AnalysisError) return error.kind;
+    if (error?.name === 'AbortError') return 'cancelled';
+
+    const message = String(error?.message || error || '');
+    const status = Number(error?.status || error?.code || (message.match(/\b(?:HTTP\s*|"code":\s*)(\d{3})\b/) || [])[1]);
+
+    if (status === 401 || status === 403 || /API[_ ]?KEY[_ ]?INVALID|API key not valid|PERMISSION_DENIED|UNAUTHENTICATED|invalid api key/i.test(message)) {
+        return 'auth';
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit|too many requests/i.test(message)) {
+        return 'quota';
+    }
+    // Chỉ khớp mã lỗi của API: chữ "blocked" / "finishReason" còn xuất hiện trong lỗi mạng, lỗi MAX_TOKENS...
+    if (/SAFETY|PROHIBITED_CONTENT|blockReason/.test(message)) {
+        return 'safety';
+    }
+    if (status === 504 || status === 408 || error?.name === 'TimeoutError' || /timed? ?out|DEADLINE_EXCEEDED/i.test(message)) {
+        return 'timeout';
+    }
+    if (/Failed to fetch|NetworkError|network|ECONNREFUSED|ENOTFOUND|Load failed/i.test(message)) {
+        return 'network';
+    }
+    if (error instanceof SyntaxError || /JSON Syntax Error/i.test(message)) {
+        return 'json_syntax';
+    }
+    return 'unknown';
+};
+
+// Chuẩn hóa mọi lỗi thành AnalysisError (giữ nguyên nếu đã là AnalysisError)
+export const toAnalysisError = (error: any, attempts: ModelAttempt[] = []): AnalysisError => {
+    if (error instanceof AnalysisError) {
+        if (attempts.length > 0 && error.attempts.length === 0) error.attempts = attempts;
+        return error;
+    }
+    return new AnalysisError(classifyError(error), String(error?.message || error || "Lỗi không xác định"), attempts);
+};
+
+export interface ErrorExplanation {
+    title: string;
+    explanation: string;
+    action: string;
+}
+
+export const ERROR_EXPLANATIONS: Record<AnalysisErrorKind, ErrorExplanation> = {
+    input: {
+        title: "Thiếu dữ liệu đầu vào",
+        explanation: "Hệ thống chưa có đề bài để phân tích.",
+        action: "Nhập đề bài hoặc tải lên ảnh chụp bài toán rồi thử lại."
+    },
+    auth: {
+        title: "API Key không hợp lệ",
+        explanation: "Máy chủ AI từ chối khóa API (sai, đã bị thu hồi hoặc chưa bật quyền truy cập).",
+        action: "Kiểm tra lại Gemini API Key (bắt đầu bằng \"AIza...\") hoặc tạo khóa mới trong Google AI Studio."
+    },
+    quota: {
+        title: "Đã hết lượt sử dụng",
+        explanation: "Khóa API đã chạm giới hạn số lần gọi hoặc hạn mức trong ngày.",
+        action: "Đợi vài phút rồi thử lại, dùng khóa API khác, hoặc mở lại bài đã lưu để không tốn lượt."
+    },
+    safety: {
+        title: "Nội dung bị bộ lọc an toàn chặn",
+        explanation: "Model từ chối trả lời vì cho rằng nội dung đề bài hoặc ảnh không phù hợp.",
+        action: "Viết lại đề bài rõ ràng hơn, bỏ các chi tiết không liên quan hoặc chụp lại ảnh chỉ chứa bài toán."
+    },
+    network: {
+        title: "Không kết nối được máy chủ",
+        explanation: "Trình duyệt không gửi được yêu cầu tới dịch vụ AI.",
+        action: "Kiểm tra kết nối mạng (hoặc địa chỉ máy chủ cục bộ) rồi thử lại."
+    },
+    timeout: {
+        title: "Quá thời gian chờ",
+        explanation: "Model phản hồi quá lâu nên yêu cầu đã bị dừng.",
+        action: "Thử lại sau ít phút, hoặc rút gọn đề bài / tách thành từng câu nhỏ."
+    },
+    json_syntax: {
+        title: "AI trả về dữ liệu hỏng",
+        explanation: "Câu trả lời của model không đúng định dạng JSON nên không thể dựng sơ đồ.",
+        action: "Bấm phân tích lại; nếu vẫn lỗi, hãy diễn đạt đề bài ngắn gọn hơn."
+    },
+    empty_tree: {
+        title: "Không có sơ đồ phân tích",
+        explanation: "Model trả lời nhưng không đưa ra hướng giải nào.",
+        action: "Kiểm tra đề bài đã có đủ giả thiết và kết luận cần chứng minh chưa, rồi thử lại."
+    },
+    file: {
+        title: "Không mở được tệp",
+        explanation: "Tệp đã chọn không phải bài phân tích GeoSolver hoặc đã bị hỏng.",
+        action: "Chọn đúng tệp .geosolver được xuất từ ứng dụng (hoặc xin lại tệp từ giáo viên)."
+    },
+    cancelled: {
+        title: "Đã hủy phân tích",
+        explanation: "Yêu cầu đã được dừng theo lựa chọn của bạn.",
+        action: "Bấm phân tích lại khi bạn sẵn sàng."
+    },
+    unknown: {
+        title: "Có lỗi xảy ra",
+        explanation: "Không xác định được nguyên nhân cụ thể.",
+        action: "Thử lại sau ít phút. Nếu lỗi lặp lại, xem chi tiết các lần thử bên dưới."
+    }
+};
@@ -0,0 +1,61 @@
+import { GradeLevel, LogicNode } from '../types';
+import { getCatalogEntry, findCatalogEntry, formatTextbookRef } from './theoremCatalog';
+
+// Kiểm tra sau khi phân tích: mỗi bước phải dùng kiến thức học sinh đã học.
+// Prompt chỉ "dặn" model, còn ở đây đối chiếu lại với danh mục SGK theo lớp đã chọn.
+
+export type ComplianceKind = 'later_grade' | 'forbidden';
+
+export interface ComplianceIssue {
+    kind: ComplianceKind;
+    detail: string;
+    catalogId?: string;
+}
+
+// Định lý ngoài chương trình: không dùng ở bất kỳ lớp nào
+export const FORBIDDEN_THEOREMS: { name: string; pattern: RegExp }[] = [
+    { name: "Định lý Menelaus", pattern: /menelaus|mê-nê-la-uýt/i },
+    { name: "Định lý Ceva", pattern: /(?<!\p{L})ceva(?!\p{L})|xê-va/iu },
+    { name: "Định lý Ptolemy", pattern: /ptolemy|ptô-lê-mê|ptoleme/i }
+];
+
+// Phạm vi kiến thức hình học theo lớp (dùng để thu hẹp prompt)
+export const GRADE_SCOPES: Record<GradeLevel, string> = {
+    7: "Góc ở vị trí đặc biệt, Tia phân giác, Hai đường thẳng song song (tiên đề Euclid), Tam giác bằng nhau (c.c.c, c.g.c, g.c.g, cạnh huyền-góc nhọn...), Tam giác cân/đều, Các đường đồng quy trong tam giác.",
+    8: "Định lý Pythagore, Tứ giác (Hình thang cân, Hình bình hành, Chữ nhật, Thoi, Vuông), Định lý Thalès (Talet), Đường trung bình, Tính chất đường phân giác, Tam giác đồng dạng.",
+    9: "Tỉ số lượng giác của góc nhọn, Đường tròn (Dây và khoảng cách đến tâm, Tiếp tuyến, Vị trí tương đối), Góc ở tâm, Góc nội tiếp, Tứ giác nội tiếp, Đường tròn ngoại tiếp/nội tiếp tam giác."
+};
+
+export const GRADE_LEVELS: GradeLevel[] = [7, 8, 9];
+
+export const checkNodeCompliance = (node: LogicNode, grade?: GradeLevel): ComplianceIssue | null => {
+    const text = `${node.method || ''} ${node.reason || ''}`;
+    const forbidden = FORBIDDEN_THEOREMS.find(t => t.pattern.test(text));
+    if (forbidden) {
+        return { kind: 'forbidden', detail: `${forbidden.name} không có trong chương trình SGK, không được dùng.` };
+    }
+
+    if (!grade) return null;
+    const entry = getCatalogEntry(node.catalog_id) || findCatalogEntry(node.method);
+    if (entry && entry.grade > grade) {
+        return {
+            kind: 'later_grade',
+            detail: `"${entry.name}" học ở lớp ${entry.grade} (${formatTextbookRef(entry)}), học sinh lớp ${grade} chưa được dùng.`,
+            catalogId: entry.id
+        };
+    }
+    return null;
+};
+
+// Các node vi phạm theo id (cả node dùng lại qua refs đều nằm trong children ở đâu đó)
+export const checkCompliance = (root: LogicNode, grade?: GradeLevel): Record<string, ComplianceIssue> => {
+    const issues: Record<string, ComplianceIssue> = {};
+    const visit = (node: LogicNode) => {
+        if (!node || issues[node.id]) return;
+        const issue = checkNodeCompliance(node, grade);
+        if (issue) issues[node.id] = issue;
+        node.children?.forEach(visit);
+    };
+    visit(root);
+    return issues;
+};
@@ -0,0 +1,165 @@
+// Chụp một phần tử HTML (sơ đồ tương tác) thành SVG/PNG mà không cần thư viện ngoài:
+// sao chép cây DOM kèm style đã tính, đặt trong <foreignObject>, nhúng font KaTeX dạng data URL
+// (ảnh SVG không tự tải font / stylesheet bên ngoài). Chụp theo kích thước thật của phần tử,
+// nên lấy được cả phần nằm ngoài vùng đang cuộn và không phụ thuộc mức zoom.
+
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+
+// Phần tử chỉ có ý nghĩa khi tương tác (nhãn "Đang xem"...) đánh dấu data-snapshot-ignore
+const SNAPSHOT_IGNORE_ATTR = 'data-snapshot-ignore';
+
+export interface DomSnapshot {
+    svg: string;
+    width: number;
+    height: number;
+}
+
+// Style mặc định của từng loại thẻ, đo trong một iframe trống (không có CSS của trang)
+const createDefaultStyles = () => {
+    const frame = document.createElement('iframe');
+    frame.setAttribute('aria-hidden', 'true');
+    frame.style.cssText = 'position: fixed; width: 0; height: 0; border: 0; visibility: hidden;';
+    document.body.appendChild(frame);
+    const doc = frame.contentDocument!;
+    doc.open();
+    doc.write('<!DOCTYPE html><html><head></head><body></body></html>');
+    doc.close();
+
+    const cache = new Map<string, Map<string, string>>();
+    const lookup = (element: Element): Map<string, string> => {
+        const key = `${element.namespaceURI}|${element.localName}`;
+        if (!cache.has(key)) {
+            const sample = doc.createElementNS(element.namespaceURI, element.localName);
+            doc.body.appendChild(sample);
+            const computed = frame.contentWindow!.getComputedStyle(sample);
+            const values = new Map<string, string>();
+            for (let i = 0; i < computed.length; i++) values.set(computed[i], computed.getPropertyValue(computed[i]));
+            sample.remove();
+            cache.set(key, values);
+        }
+        return cache.get(key)!;
+    };
+    return { lookup, dispose: () => frame.remove() };
+};
+
+type DefaultStyles = ReturnType<typeof createDefaultStyles>;
+
+// Chép style đã tính sang bản sao, chỉ những thuộc tính khác mặc định của thẻ hoặc khác phần tử cha
+// (thuộc tính kế thừa như color, font phải ghi lại khi cha đã đổi). Tắt animation để ảnh không chụp trúng lúc đang mờ dần.
+const inlineStyles = (source: Element, clone: Element, fonts: Set<string>, defaults: DefaultStyles, parent: CSSStyleDeclaration | null = null) => {
+    const computed = window.getComputedStyle(source);
+    const style = (clone as HTMLElement | SVGElement).style;
+    if (style) {
+        const base = defaults.lookup(source);
+        for (let i = 0; i < computed.length; i++) {
+            const name = computed[i];
+            const value = computed.getPropertyValue(name);
+            if (value === base.get(name) && (!parent || value === parent.getPropertyValue(name))) continue;
+            style.setProperty(name, value, computed.getPropertyPriority(name));
+        }
+        style.setProperty('animation', 'none');
+        style.setProperty('transition', 'none');
+    }
+    computed.fontFamily.split(',').forEach(f => fonts.add(f.trim().replace(/^["']|["']$/g, '')));
+
+    const sourceChildren = Array.from(source.children);
+    const cloneChildren = Array.from(clone.children);
+    sourceChildren.forEach((child, i) => {
+        if (child.hasAttribute(SNAPSHOT_IGNORE_ATTR)) cloneChildren[i].remove();
+        else inlineStyles(child, cloneChildren[i], fonts, defaults, computed);
+    });
+};
+
+const toDataUrl = async (url: string): Promise<string> => {
+    const blob = await (await fetch(url)).blob();
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+const fontCache = new Map<string, Promise<string>>();
+
+// @font-face của các font đang dùng, đọc từ stylesheet (KaTeX, Inter nạp với crossorigin nên đọc được cssRules).
+// Chỉ lấy nguồn đầu tiên (woff2) của mỗi font; font không tải được thì bỏ qua, trình duyệt dùng font thay thế.
+const embedFontFaces = async (families: Set<string>): Promise<string> => {
+    const faces: Promise<string>[] = [];
+    Array.from(document.styleSheets).forEach(sheet => {
+        let rules: CSSRuleList;
+        try {
+            rules = sheet.cssRules;
+        } catch (e) {
+            return; // Stylesheet khác nguồn, không có CORS
+        }
+        Array.from(rules).forEach(rule => {
+            if (!(rule instanceof CSSFontFaceRule)) return;
+            const family = rule.style.getPropertyValue('font-family').trim().replace(/^["']|["']$/g, '');
+            const url = rule.style.getPropertyValue('src').match(/url\(["']?([^"')]+)["']?\)/)?.[1];
+            if (!families.has(family) || !url) return;
+            const absolute = new URL(url, sheet.href || window.location.href).href;
+            const key = rule.cssText;
+            if (!fontCache.has(key)) {
+                fontCache.set(key, toDataUrl(absolute)
+                    .then(data => `@font-face { font-family: "${family}"; src: url(${data}); font-weight: ${rule.style.getPropertyValue('font-weight') || 'normal'}; font-style: ${rule.style.getPropertyValue('font-style') || 'normal'}; }`)
+                    .catch(() => ''));
+            }
+            faces.push(fontCache.get(key)!);
+        });
+    });
+    return (await Promise.all(faces)).filter(Boolean).join('\n');
+};
+
+export const snapshotElement = async (element: HTMLElement, background: string = '#ffffff', padding: number = 24): Promise<DomSnapshot> => {
+    // Kích thước layout (không tính transform zoom của phần tử cha)
+    const contentWidth = Math.ceil(element.scrollWidth);
+    const contentHeight = Math.ceil(element.scrollHeight);
+    const width = contentWidth + padding * 2;
+    const height = contentHeight + padding * 2;
+
+    const clone = element.cloneNode(true) as HTMLElement;
+    const fonts = new Set<string>();
+    const defaults = createDefaultStyles();
+    try {
+        inlineStyles(element, clone, fonts, defaults);
+    } finally {
+        defaults.dispose();
+    }
+    clone.style.setProperty('margin', '0');
+    clone.style.setProperty('transform', 'none');
+    clone.setAttribute('xmlns', XHTML_NS);
+
+    const fontCss = await embedFontFaces(fonts);
+    const svg = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+        fontCss ? `<style>${fontCss}</style>` : '',
+        `<rect width="100%" height="100%" fill="${background}"/>`,
+        `<foreignObject x="${padding}" y="${padding}" width="${contentWidth}" height="${contentHeight}">`,
+        new XMLSerializer().serializeToString(clone),
+        '</foreignObject>',
+        '</svg>'
+    ].join('');
+    return { svg, width, height };
+};
+
+// Vẽ SVG lên canvas để ra PNG (scale > 1 cho ảnh nét khi in / chiếu)
+export const snapshotToPng = (snapshot: DomSnapshot, scale: number = 2): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = snapshot.width * scale;
+            canvas.height = snapshot.height * scale;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error("Trình duyệt không hỗ trợ canvas."));
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            try {
+                canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Không tạo được ảnh PNG.")), 'image/png');
+            } catch (e) {
+                reject(new Error("Không thể tải ảnh PNG do lỗi bảo mật trình duyệt."));
+            }
+        };
+        img.onerror = () => reject(new Error("Không vẽ được ảnh chụp sơ đồ."));
+        img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(snapshot.svg)}`;
+    });
@@ -0,0 +1,29 @@
+// Tải một tệp tạo ra trong trình duyệt xuống máy người dùng
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Thu hồi sau khi trình duyệt đã bắt đầu tải
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadText = (text: string, fileName: string, mimeType: string = 'text/plain') =>
+    downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), fileName);
+
+// Tên tệp an toàn từ đề bài: bỏ dấu, chỉ giữ chữ/số, nối bằng "-"
+export const fileSlug = (text: string, maxLength: number = 40): string =>
+    (text || '')
+        .replace(/\\[a-zA-Z]+/g, ' ') // Bỏ lệnh LaTeX, giữ tên điểm
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[đĐ]/g, 'd')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, maxLength)
+        .replace(/-+$/, '') || 'bai-toan';
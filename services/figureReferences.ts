@@ -0,0 +1,81 @@
+import { GeometryFigure } from '../types';
+
+// Tìm các phần tử hình vẽ mà một mệnh đề nhắc tới (điểm, đoạn thẳng, tam giác, góc, đường tròn)
+// để tô sáng trên hình khi người dùng chọn một node.
+
+export interface FigureHighlight {
+    points: string[];
+    segments: [string, string][];
+    polygons: string[][];               // Tam giác / tứ giác được nhắc tên
+    angles: [string, string, string][]; // [from, vertex, to]
+    circles: string[];                  // Tên tâm
+}
+
+// "A_{1}" / "A_1" -> "A1", bỏ $ và khoảng trắng
+export const normalizePointName = (name: string): string =>
+    (name || '').replace(/[$\s]/g, '').replace(/_\{?(\d+)\}?/g, '$1');
+
+// Một "từ" gồm các tên điểm viết liền: ABM, A'B'C', H_1K
+const WORD_REGEX = /(?<![\p{L}\\])((?:[A-Z](?:_\{?\d+\}?|\d+|'+)?)+)(?![\p{L}])/gu;
+const POINT_REGEX = /[A-Z](?:_\{?\d+\}?|\d+|'+)?/g;
+
+const TRIANGLE_BEFORE = /(tam giác|\\triangle|\\Delta|Δ|△)\s*\{?\s*$/i;
+const ANGLE_BEFORE = /(góc|\\widehat|\\angle|\\hat|∠)\s*\{?\s*$/i;
+const POLYGON_BEFORE = /(tứ giác|ngũ giác|hình vuông|hình chữ nhật|hình thoi|hình bình hành|hình thang(?: cân| vuông)?)\s*$/i;
+const CIRCLE_BEFORE = /(đường tròn\s*\(?|\(|\\odot\s*\{?)\s*$/i;
+
+export const emptyFigureHighlight = (): FigureHighlight => ({ points: [], segments: [], polygons: [], angles: [], circles: [] });
+
+export const isFigureHighlightEmpty = (h: FigureHighlight): boolean =>
+    h.points.length === 0 && h.segments.length === 0 && h.angles.length === 0 && h.circles.length === 0;
+
+export const findFigureReferences = (text: string, figure?: GeometryFigure): FigureHighlight => {
+    const result = emptyFigureHighlight();
+    if (!figure || !text) return result;
+
+    const known = new Set(figure.points.map(p => p.name));
+    const points = new Set<string>();
+    const segmentKeys = new Set<string>();
+    const otherKeys = new Set<string>();
+
+    const addSegment = (a: string, b: string) => {
+        const key = [a, b].sort().join('-');
+        if (a === b || segmentKeys.has(key)) return;
+        segmentKeys.add(key);
+        result.segments.push([a, b]);
+    };
+    const addOnce = (key: string, add: () => void) => {
+        if (otherKeys.has(key)) return;
+        otherKeys.add(key);
+        add();
+    };
+
+    for (const match of text.matchAll(WORD_REGEX)) {
+        const names = (match[1].match(POINT_REGEX) || []).map(normalizePointName);
+        if (names.length === 0 || !names.every(n => known.has(n))) continue;
+
+        const before = text.slice(Math.max(0, match.index! - 24), match.index);
+        names.forEach(n => points.add(n));
+
+        if (ANGLE_BEFORE.test(before)) {
+            if (names.length === 3) {
+                addOnce(`angle:${names.join('')}`, () => result.angles.push([names[0], names[1], names[2]]));
+            } else if (names.length === 1) {
+                // \widehat{B}: mọi góc đã đánh dấu tại đỉnh B
+                figure.angles.filter(a => a.vertex === names[0]).forEach(a =>
+                    addOnce(`angle:${a.from}${a.vertex}${a.to}`, () => result.angles.push([a.from, a.vertex, a.to]))
+                );
+            }
+        } else if (names.length >= 3 && (TRIANGLE_BEFORE.test(before) || POLYGON_BEFORE.test(before))) {
+            addOnce(`poly:${names.join('')}`, () => result.polygons.push(names));
+            names.forEach((n, i) => addSegment(n, names[(i + 1) % names.length]));
+        } else if (names.length === 2) {
+            addSegment(names[0], names[1]);
+        } else if (names.length === 1 && CIRCLE_BEFORE.test(before) && figure.circles.some(c => c.center === names[0])) {
+            addOnce(`circle:${names[0]}`, () => result.circles.push(names[0]));
+        }
+    }
+
+    result.points = Array.from(points);
+    return result;
+};
@@ -0,0 +1,104 @@
+import { ProviderFixture } from './modelProviders';
+
+// Bài mẫu kinh điển (Toán 7 - CTST) dùng cho chế độ offline.
+const ISOSCELES_MIDPOINT = {
+    hypothesis: ["$\\triangle ABC$ cân tại $A$", "$M$ là trung điểm của $BC$"],
+    conclusion: "a) $\\triangle ABM = \\triangle ACM$; b) $AM \\perp BC$",
+    figure: {
+        points: [
+            { name: "A", x: 4, y: 6 },
+            { name: "B", x: 1, y: 1 },
+            { name: "C", x: 7, y: 1 },
+            { name: "M", x: 4, y: 1 }
+        ],
+        segments: [
+            { from: "A", to: "B" },
+            { from: "A", to: "C" },
+            { from: "B", to: "C" },
+            { from: "A", to: "M" }
+        ],
+        circles: [],
+        angles: [
+            { vertex: "A", from: "B", to: "M", marks: 1 },
+            { vertex: "A", from: "M", to: "C", marks: 1 }
+        ],
+        equal_marks: [
+            { from: "A", to: "B", marks: 1 },
+            { from: "A", to: "C", marks: 1 },
+            { from: "B", to: "M", marks: 2 },
+            { from: "M", to: "C", marks: 2 }
+        ]
+    },
+    knowledge_used: [
+        { name: "Trường hợp bằng nhau c.c.c", description: "Nếu ba cạnh của tam giác này bằng ba cạnh của tam giác kia thì hai tam giác đó bằng nhau.", textbook_ref: "Toán 7 Tập 2 - CTST" },
+        { name: "Tính chất tam giác cân", description: "Trong một tam giác cân, hai cạnh bên bằng nhau và hai góc ở đáy bằng nhau.", textbook_ref: "Toán 7 Tập 2 - CTST" },
+        { name: "Hai góc kề bù", description: "Hai góc kề bù có tổng số đo bằng $180^\\circ$.", textbook_ref: "Toán 7 Tập 1 - CTST" }
+    ],
+    branches: [
+        {
+            id: "q1",
+            name: "Câu a",
+            status: "success",
+            explanation: "Dùng trường hợp cạnh-cạnh-cạnh vì đã biết $AB = AC$, $BM = MC$, $AM$ chung.",
+            forward_proof: "Xét $\\triangle ABM$ và $\\triangle ACM$ có:\n$AB = AC$ (do $\\triangle ABC$ cân tại $A$)\n$BM = MC$ ($M$ là trung điểm $BC$)\n$AM$ là cạnh chung\nDo đó $\\triangle ABM = \\triangle ACM$ (c.c.c).",
+            proof_steps: [
+                { statement: "$AB = AC$", justification: "do $\\triangle ABC$ cân tại $A$", node_id: "a_n1" },
+                { statement: "$BM = MC$", justification: "$M$ là trung điểm $BC$", node_id: "a_n2" },
+                { statement: "$AM$ là cạnh chung", justification: "", node_id: "a_n3" },
+                { statement: "$\\triangle ABM = \\triangle ACM$", justification: "c.c.c", node_id: "a_r" }
+            ],
+            root: {
+                id: "a_r", type: "ROOT",
+                statement: "$\\triangle ABM = \\triangle ACM$",
+                method: "Trường hợp bằng nhau c.c.c",
+                reason: "Cần chỉ ra 3 cặp cạnh tương ứng bằng nhau",
+                children: [
+                    { id: "a_n1", type: "LEAF", statement: "$AB = AC$", method: "Tính chất tam giác cân", reason: "Do $\\triangle ABC$ cân tại $A$ (GT)" },
+                    { id: "a_n2", type: "LEAF", statement: "$BM = MC$", method: "Giả thiết", reason: "$M$ là trung điểm $BC$" },
+                    { id: "a_n3", type: "LEAF", statement: "$AM$ là cạnh chung", method: "Quan sát hình", reason: "Hiển nhiên" }
+                ]
+            }
+        },
+        {
+            id: "q2",
+            name: "Câu b",
+            status: "success",
+            explanation: "Chỉ ra hai góc kề bù $\\widehat{AMB}$ và $\\widehat{AMC}$ bằng nhau.",
+            forward_proof: "Từ câu a, $\\triangle ABM = \\triangle ACM$ nên $\\widehat{AMB} = \\widehat{AMC}$ (hai góc tương ứng).\nMà $\\widehat{AMB} + \\widehat{AMC} = 180^\\circ$ (hai góc kề bù)\nnên $\\widehat{AMB} = \\widehat{AMC} = 90^\\circ$.\nVậy $AM \\perp BC$.",
+            proof_steps: [
+                { statement: "$\\triangle ABM = \\triangle ACM$", justification: "câu a", node_id: "b_n2" },
+                { statement: "$\\widehat{AMB} = \\widehat{AMC}$", justification: "hai góc tương ứng", node_id: "b_n1" },
+                { statement: "$\\widehat{AMB} + \\widehat{AMC} = 180^\\circ$", justification: "hai góc kề bù", node_id: "b_n3" },
+                { statement: "$\\widehat{AMB} = \\widehat{AMC} = 90^\\circ$ nên $AM \\perp BC$", justification: "định nghĩa hai đường thẳng vuông góc", node_id: "b_r" }
+            ],
+            root: {
+                id: "b_r", type: "ROOT",
+                statement: "$AM \\perp BC$",
+                method: "Định nghĩa hai đường thẳng vuông góc",
+                reason: "Cần chỉ ra $\\widehat{AMB} = 90^\\circ$",
+                children: [
+                    {
+                        id: "b_n1", type: "NODE",
+                        statement: "$\\widehat{AMB} = \\widehat{AMC}$",
+                        method: "Hai góc tương ứng",
+                        reason: "Cần hai tam giác chứa hai góc này bằng nhau",
+                        children: [
+                            { id: "b_n2", type: "LEAF", statement: "$\\triangle ABM = \\triangle ACM$", method: "Câu a", reason: "Đã chứng minh ở câu a" }
+                        ]
+                    },
+                    { id: "b_n3", type: "LEAF", statement: "$\\widehat{AMB} + \\widehat{AMC} = 180^\\circ$", method: "Hai góc kề bù", reason: "$B, M, C$ thẳng hàng" }
+                ]
+            }
+        }
+    ]
+};
+
+// Câu trả lời mẫu cho hội thoại gia sư (match khớp TUTOR_PROMPT_MARKER trong services/tutorChat.ts)
+const TUTOR_REPLY = {
+    reply: "Câu hỏi hay đấy! Em thử nghĩ xem: để có được mệnh đề này thì cần biết thêm điều gì? Trong các giả thiết, điều nào nhắc tới những đoạn thẳng hay góc đang xuất hiện ở đây?"
+};
+
+export const DEMO_FIXTURES: ProviderFixture[] = [
+    { match: 'GIA SƯ SOCRATIC', response: JSON.stringify(TUTOR_REPLY) },
+    { response: JSON.stringify(ISOSCELES_MIDPOINT) }
+];
@@ -1,25 +1,86 @@
-import { GoogleGenAI } from "@google/genai";
-import { GeometryResponse, AnalysisType, LogicNode, AnalysisBranch } from '../types';
-
-// Priority list of models to use.
-const FALLBACK_MODELS = [
-    'gemini-3-pro-preview',      // Primary: Complex Text Tasks (Math)
-    'gemini-2.5-flash',          // Secondary: Fast & Efficient
-    'gemini-flash-lite-latest'   // Tertiary: Very fast
-];
+import { GeometryResponse, AnalysisBranch, AnalysisType, GradeLevel } from '../types';
+import { ModelProvider, ModelImage, resolveProvider } from './modelProviders';
+import { validateGeometryResponse } from './responseValidator';
+import { applyGrounding } from './groundingChecker';
+import { linkCatalog, catalogPromptList } from './theoremCatalog';
+import { GRADE_SCOPES, GRADE_LEVELS } from './curriculumChecker';
+import { parsePartialJson, isIncomplete } from './partialJson';
+import { AnalysisError, ModelAttempt, classifyError, toAnalysisError, RETRYABLE_KINDS, FATAL_KINDS } from './analysisErrors';
+
+export interface AnalyzeOptions {
+    provider?: ModelProvider; // Mặc định: Gemini với key của người dùng
+    onPartial?: (partial: GeometryResponse) => void; // Bật stream: nhận kết quả từng phần
+    signal?: AbortSignal;     // Hủy toàn bộ chuỗi model
+    timeoutMs?: number;       // Ghi đè thời gian chờ cho mỗi model
+    grade?: GradeLevel;       // Lớp của học sinh: chỉ dùng kiến thức đến lớp này
+}
+
+// Thời gian chờ tối đa cho mỗi lần gọi model (model "pro" suy luận lâu hơn)
+const MODEL_TIMEOUTS_MS: Record<string, number> = {
+    'gemini-3-pro-preview': 180000,
+    'gemini-2.5-flash': 90000,
+    'gemini-flash-lite-latest': 60000
+};
+const DEFAULT_TIMEOUT_MS = 120000;
+
+// Exponential backoff cho lỗi tạm thời (429, mạng chập chờn)
+const MAX_RETRIES_PER_MODEL = 2;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 15000;
+
+export const backoffDelay = (retry: number): number => {
+    const exp = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** retry);
+    return exp / 2 + Math.random() * exp / 2; // "equal jitter"
+};
+
+const cancelledError = () => new AnalysisError('cancelled', "Đã hủy phân tích.");
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(cancelledError());
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(cancelledError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+// Chạy một lần gọi với thời gian chờ riêng; hủy từ bên ngoài cũng dừng lần gọi này.
+// Dùng Promise.race để không bị treo kể cả khi provider bỏ qua signal.
+const withTimeout = <T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, outer?: AbortSignal): Promise<T> => {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+
+    const guard = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort();
+            reject(new AnalysisError('timeout', `Quá ${Math.round(timeoutMs / 1000)} giây không có phản hồi.`));
+        }, timeoutMs);
+        onAbort = () => {
+            controller.abort();
+            reject(cancelledError());
+        };
+        if (outer?.aborted) onAbort();
+        else outer?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    return Promise.race([run(controller.signal), guard]).finally(() => {
+        clearTimeout(timer);
+        if (onAbort) outer?.removeEventListener('abort', onAbort);
+    });
+};
+
+export const buildAnalysisPrompt = (text: string, feedback?: string, imageCount: number = 0, grade?: GradeLevel): string => {
+    let userInstruction = `Bài toán: ${text}`;
 
-export const analyzeGeometryProblem = async (text: string, imageBase64?: string, feedback?: string, userApiKey?: string): Promise<GeometryResponse> => {
-    
-    // Ưu tiên dùng Key người dùng nhập, nếu không có thì dùng Key hệ thống (process.env)
-    const apiKey = userApiKey || process.env.API_KEY;
-    
-    if (!apiKey) {
-        throw new Error("Vui lòng nhập Gemini API Key để sử dụng ứng dụng.");
+    if (imageCount > 1) {
+        userInstruction += `\n\n(Đề bài gồm ${imageCount} ảnh đính kèm theo thứ tự: có thể là nhiều phần của cùng một đề, hoặc đề bài và hình vẽ chụp riêng. Hãy ghép thông tin từ tất cả các ảnh.)`;
     }
-
-    const ai = new GoogleGenAI({ apiKey });
-
-    let userInstruction = `Bài toán: ${text}`;
     
     if (feedback) {
         userInstruction += `\n\n*** YÊU CẦU ĐIỀU CHỈNH TỪ NGƯỜI DÙNG ***:
@@ -27,6 +88,15 @@ export const analyzeGeometryProblem = async (text: string, imageBase64?: string,
         Hãy phân tích lại bài toán, nhưng LẦN NÀY PHẢI ƯU TIÊN tuân thủ gợi ý trên của người dùng để xây dựng sơ đồ và lời giải.`;
     }
 
+    // Chọn lớp thì chỉ liệt kê kiến thức đến lớp đó và cấm rõ kiến thức lớp trên
+    const scopeLines = GRADE_LEVELS
+        .filter(g => !grade || g <= grade)
+        .map(g => `       - **Lớp ${g}:** ${GRADE_SCOPES[g]}`)
+        .concat(grade && grade < 9
+            ? [`       - **Học sinh đang học lớp ${grade}:** TUYỆT ĐỐI KHÔNG dùng kiến thức của lớp ${GRADE_LEVELS.filter(g => g > grade).join(', ')} (${GRADE_SCOPES[(grade + 1) as GradeLevel].replace(/\.$/, '')}...).`]
+            : [])
+        .join('\n');
+
     const prompt = `
     Bạn là một Giáo viên Toán THCS chuyên sâu về bộ sách giáo khoa **"CHÂN TRỜI SÁNG TẠO" (CTST)** theo chương trình **GDPT 2018**.
     Nhiệm vụ: Phân tích bài toán hình học theo phương pháp **SUY LUẬN NGƯỢC (Phân tích đi lên)** và trả về JSON.
@@ -34,9 +104,7 @@ export const analyzeGeometryProblem = async (text: string, imageBase64?: string,
     **🚨 QUY TẮC VỀ KIẾN THỨC (BẮT BUỘC TUÂN THỦ SGK CTST HIỆN HÀNH):**
     1. **TUYỆT ĐỐI KHÔNG** sử dụng kiến thức đã bị loại bỏ hoặc chưa học trong chương trình mới.
     2. **Phạm vi kiến thức cho phép (Cập nhật 2024):**
-       - **Lớp 7:** Góc ở vị trí đặc biệt, Tia phân giác, Hai đường thẳng song song (tiên đề Euclid), Tam giác bằng nhau (c.c.c, c.g.c, g.c.g, cạnh huyền-góc nhọn...), Tam giác cân/đều, Định lý Pytago, Các đường đồng quy trong tam giác.
-       - **Lớp 8:** Tứ giác (Hình thang cân, Hình bình hành, Chữ nhật, Thoi, Vuông), Định lý Thalès (Talet), Tam giác đồng dạng.
-       - **Lớp 9:** Đường tròn (Dây và khoảng cách đến tâm, Tiếp tuyến, Vị trí tương đối), Góc với đường tròn.
+${scopeLines}
     3. **KHÔNG DÙNG:** Các định lý nâng cao ngoài SGK (Menelaus, Ceva, Ptolemy...) trừ khi bài toán quá khó không thể giải bằng cách thường.
     4. **THUẬT NGỮ:** 
        - Dùng "Hai tam giác bằng nhau" (không dùng "tương đương").
@@ -49,14 +117,30 @@ export const analyzeGeometryProblem = async (text: string, imageBase64?: string,
     - \`root\`: Node gốc (Kết luận).
     - \`children\`: Các bước suy luận ngược (Để chứng minh A cần B, để có B cần C...).
     - \`type\`: ROOT (Kết luận), NODE (Trung gian), LEAF (Giả thiết/Định lý đã biết).
+    - \`proof_steps\`: Lời giải xuôi chia thành từng bước theo thứ tự trình bày: \`statement\` (điều suy ra), \`justification\` (căn cứ) và \`node_id\` (id của node trên sơ đồ mà bước này chứng minh). Vẫn ghi đầy đủ \`forward_proof\` dạng văn bản.
+    - \`refs\`: (Tùy chọn) Mảng \`id\` của node đã xuất hiện ở chỗ khác trong CÙNG hướng giải mà bước này cũng cần. Khi hai nhánh cùng cần một tiền đề (ví dụ cùng cần $AB = AC$), chỉ viết node đó MỘT lần trong \`children\` của nhánh đầu, nhánh sau ghi \`"refs": ["id_đó"]\` thay vì lặp lại.
+    - \`figure\`: Hình vẽ của bài toán. Tự chọn tọa độ hợp lý (khoảng 0..10, trục y hướng lên) sao cho hình đúng với giả thiết (tam giác cân thì cân, vuông thì vuông...).
+       - \`points\`: các điểm có tên; \`segments\`: đoạn thẳng cần vẽ (\`dashed: true\` cho đường kẻ thêm); \`circles\`: \`center\` kèm \`radius\` hoặc \`through\`.
+       - \`angles\`: ký hiệu góc (\`marks\` = số cung cho các góc bằng nhau, \`right: true\` cho góc vuông); \`equal_marks\`: ký hiệu đoạn thẳng bằng nhau (\`marks\` = số gạch).
+    - \`catalog_id\`: (Trong \`knowledge_used\` và trong từng node có \`method\` là định lý/định nghĩa) id của kiến thức trong DANH MỤC SGK bên dưới. Chỉ dùng id có trong danh mục; kiến thức không có trong danh mục thì bỏ trống trường này.
+
+    **DANH MỤC KIẾN THỨC SGK CTST (id: tên):**
+    ${catalogPromptList(grade)}
 
     **MẪU DỮ LIỆU JSON:**
     \`\`\`json
     {
        "hypothesis": ["$\\triangle ABC$ cân tại $A$", "$M$ trung điểm $BC$"],
        "conclusion": "a) $\\triangle ABM = \\triangle ACM$",
+       "figure": {
+           "points": [{ "name": "A", "x": 4, "y": 6 }, { "name": "B", "x": 1, "y": 1 }, { "name": "C", "x": 7, "y": 1 }, { "name": "M", "x": 4, "y": 1 }],
+           "segments": [{ "from": "A", "to": "B" }, { "from": "A", "to": "C" }, { "from": "B", "to": "C" }, { "from": "A", "to": "M" }],
+           "circles": [],
+           "angles": [],
+           "equal_marks": [{ "from": "A", "to": "B", "marks": 1 }, { "from": "A", "to": "C", "marks": 1 }, { "from": "B", "to": "M", "marks": 2 }, { "from": "M", "to": "C", "marks": 2 }]
+       },
        "knowledge_used": [
-           { "name": "Trường hợp bằng nhau c.c.c", "description": "Nếu ba cạnh tam giác này bằng ba cạnh tam giác kia...", "textbook_ref": "Toán 7 Tập 2 - CTST" }
+           { "catalog_id": "ctst7-tg-ccc", "name": "Trường hợp bằng nhau c.c.c", "description": "Nếu ba cạnh tam giác này bằng ba cạnh tam giác kia...", "textbook_ref": "Toán 7 Tập 2 - CTST" }
        ],
        "branches": [
            {
@@ -65,11 +149,16 @@ export const analyzeGeometryProblem = async (text: string, imageBase64?: string,
                "status": "success",
                "explanation": "Dùng trường hợp cạnh-cạnh-cạnh vì đã biết AB=AC, BM=MC, AM chung.",
                "forward_proof": "Xét $\\triangle ABM$ và $\\triangle ACM$ có: ...",
+               "proof_steps": [
+                   { "statement": "$AB = AC$", "justification": "do $\\triangle ABC$ cân tại A", "node_id": "n1" },
+                   { "statement": "$\\triangle ABM = \\triangle ACM$", "justification": "c.c.c", "node_id": "r1" }
+               ],
                "root": { 
                    "id": "r1", 
                    "type": "ROOT", 
                    "statement": "$\\triangle ABM = \\triangle ACM$",
                    "method": "Trường hợp c.c.c",
+                   "catalog_id": "ctst7-tg-ccc",
                    "reason": "Cần chỉ ra 3 cặp cạnh tương ứng bằng nhau",
                    "children": [
                         {
@@ -77,6 +166,7 @@ export const analyzeGeometryProblem = async (text: string, imageBase64?: string,
                             "type": "NODE",
                             "statement": "$AB = AC$",
                             "method": "Tính chất tam giác cân",
+                            "catalog_id": "ctst7-tam-giac-can-tinh-chat",
                             "reason": "Do $\\triangle ABC$ cân tại A (GT)",
                             "isProven": true,
                             "type": "LEAF" 
@@ -106,165 +196,170 @@ export const analyzeGeometryProblem = async (text: string, imageBase64?: string,
     ${userInstruction}
     `;
 
-    const parts: any[] = [{ text: prompt }];
-
-    if (imageBase64) {
-        parts.push({
-            inlineData: {
-                mimeType: "image/jpeg",
-                data: imageBase64
-            }
-        });
-    }
+    return prompt;
+};
 
-    let lastError: any = null;
-
-    const extractJson = (text: string): string => {
-        let clean = text.replace(/^```json\s*/i, "").replace(/```$/, "").trim();
-        const start = clean.indexOf('{');
-        if (start === -1) return clean; 
-        
-        let braceCount = 0;
-        let end = -1;
-        
-        for (let i = start; i < clean.length; i++) {
-            if (clean[i] === '{') braceCount++;
-            else if (clean[i] === '}') braceCount--;
-            
-            if (braceCount === 0) {
-                end = i;
-                break;
-            }
-        }
+export const extractJson = (text: string): string => {
+    let clean = text.replace(/^```json\s*/i, "").replace(/```$/, "").trim();
+    const start = clean.indexOf('{');
+    if (start === -1) return clean; 
+    
+    let braceCount = 0;
+    let end = -1;
+    
+    for (let i = start; i < clean.length; i++) {
+        if (clean[i] === '{') braceCount++;
+        else if (clean[i] === '}') braceCount--;
         
-        if (end !== -1) {
-            return clean.substring(start, end + 1);
+        if (braceCount === 0) {
+            end = i;
+            break;
         }
-        return clean;
-    };
+    }
+    
+    if (end !== -1) {
+        return clean.substring(start, end + 1);
+    }
+    return clean;
+};
 
-    const repairJsonString = (str: string): string => {
-        return str.replace(/\\(?![\\"/bfnrtu])/g, "\\\\");
-    };
+export const repairJsonString = (str: string): string => {
+    return str.replace(/\\(?![\\"/bfnrtu])/g, "\\\\");
+};
 
-    for (const modelId of FALLBACK_MODELS) {
+// Parse + sanitize câu trả lời thô của model thành GeometryResponse (dùng chung cho mọi provider)
+export const parseGeometryResponse = (textResponse: string): GeometryResponse => {
+    let parsed: any;
+    let jsonString = extractJson(textResponse);
+
+    try {
+        parsed = JSON.parse(jsonString);
+    } catch (e1) {
         try {
-            const response = await ai.models.generateContent({
-                model: modelId,
-                contents: { parts },
-                config: {
-                    responseMimeType: "application/json",
-                }
-            });
+            const repaired = repairJsonString(jsonString);
+            parsed = JSON.parse(repaired);
+        } catch (e2) {
+            throw new AnalysisError('json_syntax', `JSON Syntax Error: ${e1}`);
+        }
+    }
 
-            let textResponse = response.text;
-            if (!textResponse) throw new Error("No response from Gemini");
+    return normalizeGeometryResponse(parsed);
+};
 
-            let parsed: any;
-            let jsonString = extractJson(textResponse);
+// Kiểm tra + chuẩn hóa một object đã parse (câu trả lời của model hoặc tệp nhập vào)
+export const normalizeGeometryResponse = (parsed: any): GeometryResponse => {
+    const { value, issues } = validateGeometryResponse(parsed);
+    if (value.branches.length === 0) throw new AnalysisError('empty_tree', "Không tìm thấy sơ đồ phân tích nào.");
 
-            try {
-                parsed = JSON.parse(jsonString);
-            } catch (e1) {
-                try {
-                    const repaired = repairJsonString(jsonString);
-                    parsed = JSON.parse(repaired);
-                } catch (e2) {
-                    throw new Error(`JSON Syntax Error: ${e1}`);
-                }
-            }
+    if (issues.length > 0) {
+        console.warn(`[GeoSolver] Đã sửa ${issues.length} trường dữ liệu:`, issues);
+    }
+    return applyGrounding(linkCatalog(value));
+};
+
+// Dựng kết quả tạm từ JSON đang stream: phần đã đóng được kiểm tra như bình thường,
+// hướng giải còn dở được thay bằng placeholder (pending).
+export const buildPartialResponse = (textSoFar: string): GeometryResponse | null => {
+    let partial: any;
+    try {
+        partial = parsePartialJson(textSoFar);
+    } catch (e) {
+        return null;
+    }
+    if (!partial || typeof partial !== 'object') return null;
+
+    const rawBranches: any[] = Array.isArray(partial.branches) ? partial.branches : [];
+    const done = rawBranches.filter(b => !isIncomplete(b));
+    const inProgress = rawBranches.filter(b => isIncomplete(b));
+    const rawKnowledge: any[] = Array.isArray(partial.knowledge_used) ? partial.knowledge_used : [];
+
+    const { value } = validateGeometryResponse({
+        hypothesis: Array.isArray(partial.hypothesis) ? partial.hypothesis : [],
+        conclusion: partial.conclusion,
+        knowledge_used: rawKnowledge.filter(k => !isIncomplete(k)),
+        branches: done,
+        figure: partial.figure && !isIncomplete(partial.figure) ? partial.figure : undefined
+    });
+
+    const pending: AnalysisBranch[] = inProgress.map((b, i) => {
+        const index = done.length + i;
+        return {
+            id: typeof b.id === 'string' && b.id ? b.id : `pending_${index}`,
+            name: typeof b.name === 'string' && b.name ? b.name : `Cách ${index + 1}`,
+            status: 'partial',
+            explanation: typeof b.explanation === 'string' ? b.explanation : '',
+            root: { id: `pending_root_${index}`, statement: '...', reason: '', type: AnalysisType.ROOT, children: [] },
+            forward_proof: '',
+            pending: true
+        };
+    });
+
+    const linked = applyGrounding(linkCatalog(value));
+    return {
+        ...linked,
+        conclusion: typeof partial.conclusion === 'string' ? value.conclusion : '',
+        branches: [...linked.branches, ...pending],
+        diagnostics: []
+    };
+};
+
+// Thử lần lượt các model của provider (kèm thời gian chờ, backoff khi lỗi tạm thời),
+// trả về kết quả của lần gọi thành công đầu tiên
+export const runModelChain = async <T>(
+    provider: ModelProvider,
+    run: (modelId: string, signal: AbortSignal) => Promise<T>,
+    options: { signal?: AbortSignal; timeoutMs?: number } = {}
+): Promise<T> => {
+    const { signal } = options;
+    let lastError: any = null;
+    const attempts: ModelAttempt[] = [];
 
-            const ensureString = (val: any): string => {
-                if (val === null || val === undefined) return "";
-                if (typeof val === 'string') return val;
-                if (typeof val === 'number') return String(val);
-                if (Array.isArray(val)) return val.map(v => ensureString(v)).join('\n');
-                if (typeof val === 'object') return val.text || JSON.stringify(val);
-                return "";
-            };
-
-            const sanitizeLogicNode = (node: any): LogicNode => {
-                if (!node || typeof node !== 'object') {
-                    return {
-                        id: 'err_' + Math.random().toString(36).substr(2, 5),
-                        statement: "Lỗi dữ liệu",
-                        method: "",
-                        reason: "",
-                        type: AnalysisType.NODE,
-                        children: []
-                    };
-                }
-
-                const id = ensureString(node.id) || 'n' + Math.random().toString(36).substr(2, 6);
-                const statement = ensureString(node.statement) || "...";
-                const method = ensureString(node.method);
-                const reason = ensureString(node.reason);
-
-                let type = AnalysisType.NODE;
-                if (String(node.type).toUpperCase() === 'ROOT') type = AnalysisType.ROOT;
-                if (String(node.type).toUpperCase() === 'LEAF') type = AnalysisType.LEAF;
-
-                let children: LogicNode[] = [];
-                const rawChildren = node.children || node.nodes;
-                if (Array.isArray(rawChildren)) {
-                    children = rawChildren.map((c: any) => sanitizeLogicNode(c));
-                }
-
-                return {
-                    id,
-                    statement,
-                    method,
-                    reason,
-                    type,
-                    isProven: !!node.isProven,
-                    children
-                };
-            };
-
-            // Process Branches
-            let branches: AnalysisBranch[] = [];
-            const globalProof = ensureString(parsed.forward_proof || parsed.proof); 
-
-            if (Array.isArray(parsed.branches)) {
-                branches = parsed.branches.map((b: any, index: number) => ({
-                    id: ensureString(b.id) || `b${index}`,
-                    name: ensureString(b.name) || `Cách ${index + 1}`,
-                    status: (b.status === 'success' || b.status === 'failure' || b.status === 'partial') ? b.status : 'success',
-                    explanation: ensureString(b.explanation),
-                    root: sanitizeLogicNode(b.root || b.tree),
-                    forward_proof: ensureString(b.forward_proof || b.proof) || globalProof || "Đang cập nhật lời giải..."
-                }));
-            } else if (parsed.reverse_analysis_tree || parsed.root) {
-                branches.push({
-                    id: 'default',
-                    name: 'Phương pháp tối ưu',
-                    status: 'success',
-                    explanation: 'Đây là hướng giải đề xuất.',
-                    root: sanitizeLogicNode(parsed.reverse_analysis_tree || parsed.root),
-                    forward_proof: globalProof || "Đang cập nhật lời giải..."
-                });
-            }
+    for (const modelId of provider.models) {
+        const timeoutMs = options.timeoutMs || MODEL_TIMEOUTS_MS[modelId] || DEFAULT_TIMEOUT_MS;
 
-            branches.forEach(b => {
-                if (b.root) b.root.type = AnalysisType.ROOT;
-            });
+        for (let retry = 0; retry <= MAX_RETRIES_PER_MODEL; retry++) {
+            if (signal?.aborted) throw toAnalysisError(cancelledError(), attempts);
 
-            if (branches.length === 0) throw new Error("Không tìm thấy sơ đồ phân tích nào.");
+            const startedAt = Date.now();
+            try {
+                const result = await withTimeout(attemptSignal => run(modelId, attemptSignal), timeoutMs, signal);
 
-            const safeConclusion = ensureString(parsed.conclusion) || "Không xác định";
+                attempts.push({ providerId: provider.id, modelId, durationMs: Date.now() - startedAt, ok: true });
+                return result;
+            } catch (error: any) {
+                const kind = signal?.aborted ? 'cancelled' : classifyError(error);
+                attempts.push({ providerId: provider.id, modelId, durationMs: Date.now() - startedAt, ok: false, kind, message: error?.message });
+                console.warn(`[GeoSolver] Model ${modelId} failed (${kind}):`, error?.message);
+                lastError = kind === 'cancelled' ? cancelledError() : error;
 
-            return {
-                hypothesis: Array.isArray(parsed.hypothesis) ? parsed.hypothesis.map(ensureString) : [],
-                conclusion: safeConclusion,
-                knowledge_used: Array.isArray(parsed.knowledge_used) ? parsed.knowledge_used : [],
-                branches: branches
-            };
+                if (FATAL_KINDS.includes(kind)) throw toAnalysisError(lastError, attempts);
+                if (!RETRYABLE_KINDS.includes(kind) || retry === MAX_RETRIES_PER_MODEL) break;
 
-        } catch (error: any) {
-            console.warn(`[GeoSolver] Model ${modelId} failed:`, error.message);
-            lastError = error;
+                await sleep(backoffDelay(retry), signal).catch(e => {
+                    throw toAnalysisError(e, attempts);
+                });
+            }
         }
     }
 
-    throw lastError || new Error("Không thể xử lý yêu cầu vào lúc này.");
-};
\ No newline at end of file
+    throw toAnalysisError(lastError || new Error("Không thể xử lý yêu cầu vào lúc này."), attempts);
+};
+
+export const analyzeGeometryProblem = async (text: string, images: ModelImage[] = [], feedback?: string, userApiKey?: string, options: AnalyzeOptions = {}): Promise<GeometryResponse> => {
+    const provider = options.provider || resolveProvider({ kind: 'gemini', apiKey: userApiKey });
+    const prompt = buildAnalysisPrompt(text, feedback, images.length, options.grade);
+    const { onPartial } = options;
+
+    return runModelChain(provider, async (modelId, attemptSignal) => {
+        const request = { prompt, images, signal: attemptSignal };
+        const textResponse = onPartial && provider.generateStream
+            ? await provider.generateStream(request, modelId, (soFar) => {
+                if (attemptSignal.aborted) return;
+                const partial = buildPartialResponse(soFar);
+                if (partial) onPartial(options.grade ? { ...partial, grade: options.grade } : partial);
+            })
+            : await provider.generate(request, modelId);
+        const parsed = parseGeometryResponse(textResponse);
+        return options.grade ? { ...parsed, grade: options.grade } : parsed;
+    }, options);
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parseGeosolverFile, createGeosolverFile } from './geosolverFile';
+import { normalizeGeometryResponse } from './geminiService';
+
+const tree = {
+    id: 'r1',
+    type: 'ROOT',
+    statement: '$AM \\perp BC$',
+    reason: '',
+    children: [{ id: 'n1', type: 'LEAF', statement: '$AB = AC$', reason: 'GT' }]
+};
+
+const base = { hypothesis: ['$AB = AC$'], conclusion: '$AM \\perp BC$', knowledge_used: [] };
+
+// Tệp phiên bản 0: JSON trần, có thể còn dạng một cây
+describe('parseGeosolverFile (version 0)', () => {
+    it('turns reverse_analysis_tree into one branch with its proof', () => {
+        const file = parseGeosolverFile(JSON.stringify({
+            ...base,
+            reverse_analysis_tree: tree,
+            forward_proof: 'Proof text here',
+            optimal_path_summary: ['$AB = AC$', '$AM \\perp BC$']
+        }));
+        expect(file.version).toBe(1);
+        expect(file.analysis.branches).toHaveLength(1);
+        expect(file.analysis.branches[0].root.id).toBe('r1');
+        expect(file.analysis.branches[0].forward_proof).toBe('Proof text here');
+        expect(file.analysis.branches[0].explanation).toBe('$AB = AC$ → $AM \\perp BC$');
+    });
+
+    it('keeps the proof of a single root tree', () => {
+        const file = parseGeosolverFile(JSON.stringify({ ...base, root: tree, forward_proof: 'Proof text here' }));
+        expect(file.analysis.branches).toHaveLength(1);
+        expect(file.analysis.branches[0].root.id).toBe('r1');
+        expect(file.analysis.branches[0].forward_proof).toBe('Proof text here');
+    });
+
+    it('uses the shared proof for branches without their own', () => {
+        const file = parseGeosolverFile(JSON.stringify({
+            ...base,
+            forward_proof: 'GLOBAL',
+            branches: [{ id: 'q1', name: 'Cách 1', status: 'success', explanation: '', root: tree }]
+        }));
+        expect(file.analysis.branches[0].forward_proof).toBe('GLOBAL');
+    });
+});
+
+describe('createGeosolverFile', () => {
+    it('keeps the status the model reported through export and import', () => {
+        const data = normalizeGeometryResponse({
+            ...base,
+            branches: [{
+                id: 'q1', name: 'Cách 1', status: 'success', explanation: '', forward_proof: '...',
+                root: { ...tree, children: [{ id: 'n1', type: 'LEAF', statement: '$BM = CM$', reason: '' }] }
+            }]
+        });
+        expect(data.branches[0].status).toBe('partial');
+        expect(data.branches[0].reported_status).toBe('success');
+
+        const file = parseGeosolverFile(JSON.stringify(createGeosolverFile(data)));
+        expect(file.analysis.branches[0].status).toBe('partial');
+        expect(file.analysis.branches[0].reported_status).toBe('success');
+    });
+});
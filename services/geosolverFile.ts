@@ -0,0 +1,141 @@
+import { GeometryResponse } from '../types';
+import { normalizeGeometryResponse } from './geminiService';
+import { AnalysisError } from './analysisErrors';
+import { GRADE_LEVELS } from './curriculumChecker';
+import { downloadText, fileSlug } from './download';
+
+// Tệp .geosolver: một bài phân tích đầy đủ dạng JSON (UTF-8), để giáo viên soạn sẵn và gửi cho học sinh.
+//
+//   {
+//     "format": "geosolver",
+//     "version": 1,
+//     "exported_at": "2024-09-05T08:00:00.000Z",
+//     "problem": "Cho tam giác ABC cân tại A...",   // đề bài dạng chữ, rỗng nếu đề là ảnh
+//     "analysis": { hypothesis, conclusion, branches, knowledge_used, figure?, grade? }  // GeometryResponse
+//   }
+//
+// Lịch sử phiên bản (mỗi bước nâng cấp nằm trong MIGRATIONS, nhập tệp cũ sẽ chạy lần lượt từng bước):
+//   0 - JSON trần không có vỏ "format/version" (câu trả lời của model, dữ liệu cũ). Có thể còn dạng
+//       một cây: reverse_analysis_tree + forward_proof + optimal_path_summary thay cho branches.
+//   1 - Có vỏ; analysis luôn dùng branches, không còn các trường cũ.
+// Tệp nhập vào luôn được kiểm tra lại như câu trả lời của model (responseValidator).
+
+export const GEOSOLVER_FORMAT = 'geosolver';
+export const GEOSOLVER_FILE_VERSION = 1;
+export const GEOSOLVER_EXTENSION = '.geosolver';
+
+export interface GeosolverFile {
+    format: typeof GEOSOLVER_FORMAT;
+    version: number;
+    exported_at?: string;
+    problem: string;
+    analysis: GeometryResponse;
+}
+
+const fileError = (message: string) => new AnalysisError('file', message);
+
+// Dạng một cây (trước khi có nhiều hướng giải) -> một hướng giải duy nhất
+const upgradeSingleTree = (analysis: any): any => {
+    // Dạng khác (root, hay branches kèm lời giải chung) để nguyên: validator tự đọc các trường đó
+    if (Array.isArray(analysis.branches) || !analysis.reverse_analysis_tree) return analysis;
+    const { reverse_analysis_tree, optimal_path_summary, forward_proof, ...rest } = analysis;
+    const summary = Array.isArray(optimal_path_summary) ? optimal_path_summary.filter((s: any) => typeof s === 'string') : [];
+    return {
+        ...rest,
+        branches: [{
+            id: 'default',
+            name: 'Phương pháp tối ưu',
+            status: 'success',
+            explanation: summary.length ? summary.join(' → ') : 'Đây là hướng giải đề xuất.',
+            root: reverse_analysis_tree,
+            forward_proof: forward_proof || ''
+        }]
+    };
+};
+
+// MIGRATIONS[n] nâng tệp từ phiên bản n lên n + 1
+const MIGRATIONS: Record<number, (file: any) => any> = {
+    0: (analysis: any) => ({
+        format: GEOSOLVER_FORMAT,
+        version: 1,
+        problem: '',
+        analysis: upgradeSingleTree(analysis)
+    })
+};
+
+const looksLikeAnalysis = (value: any): boolean =>
+    !!value && typeof value === 'object' && ('branches' in value || 'reverse_analysis_tree' in value || 'root' in value);
+
+const detectVersion = (value: any): number => {
+    if (value?.format === GEOSOLVER_FORMAT) {
+        if (!Number.isInteger(value.version) || value.version < 1) throw fileError(`Phiên bản tệp không hợp lệ: ${JSON.stringify(value.version)}.`);
+        return value.version;
+    }
+    if (looksLikeAnalysis(value)) return 0;
+    throw fileError("Tệp không chứa bài phân tích GeoSolver.");
+};
+
+export const migrateGeosolverFile = (value: any): any => {
+    let version = detectVersion(value);
+    if (version > GEOSOLVER_FILE_VERSION) {
+        throw fileError(`Tệp được tạo bởi phiên bản mới hơn (định dạng ${version}). Hãy cập nhật ứng dụng.`);
+    }
+    let file = value;
+    while (version < GEOSOLVER_FILE_VERSION) {
+        file = MIGRATIONS[version](file);
+        version++;
+    }
+    return file;
+};
+
+export const parseGeosolverFile = (text: string): GeosolverFile => {
+    let value: any;
+    try {
+        value = JSON.parse(text);
+    } catch (e) {
+        throw fileError(`Tệp không phải JSON hợp lệ: ${e}`);
+    }
+
+    const file = migrateGeosolverFile(value);
+    if (!file.analysis || typeof file.analysis !== 'object') throw fileError("Tệp thiếu phần \"analysis\".");
+
+    let analysis: GeometryResponse;
+    try {
+        analysis = normalizeGeometryResponse(file.analysis);
+    } catch (e: any) {
+        throw fileError(`Bài phân tích trong tệp không dùng được: ${e?.message || e}`);
+    }
+    // Lớp đã chọn không thuộc câu trả lời của model nên validator không đọc, giữ lại ở đây
+    if (GRADE_LEVELS.includes(file.analysis.grade)) analysis = { ...analysis, grade: file.analysis.grade };
+
+    return {
+        format: GEOSOLVER_FORMAT,
+        version: GEOSOLVER_FILE_VERSION,
+        exported_at: typeof file.exported_at === 'string' ? file.exported_at : undefined,
+        problem: typeof file.problem === 'string' ? file.problem : '',
+        analysis
+    };
+};
+
+// Bỏ dữ liệu chỉ có ý nghĩa lúc chạy (hướng giải đang stream, ghi chú sửa lỗi của lần parse).
+// Trạng thái ghi vào tệp là trạng thái model báo: khi nhập, kiểm tra căn cứ sẽ tính lại từ đó.
+export const createGeosolverFile = (data: GeometryResponse, problem: string = ''): GeosolverFile => {
+    const { diagnostics, ...analysis } = data;
+    return {
+        format: GEOSOLVER_FORMAT,
+        version: GEOSOLVER_FILE_VERSION,
+        exported_at: new Date().toISOString(),
+        problem,
+        analysis: {
+            ...analysis,
+            branches: analysis.branches
+                .filter(b => !b.pending)
+                .map(({ reported_status, ...b }) => ({ ...b, status: reported_status || b.status }))
+        }
+    };
+};
+
+export const downloadGeosolverFile = (data: GeometryResponse, problem: string = '') => {
+    const name = fileSlug(problem || data.conclusion);
+    downloadText(JSON.stringify(createGeosolverFile(data, problem), null, 2), `${name}${GEOSOLVER_EXTENSION}`, 'application/json');
+};
@@ -0,0 +1,375 @@
+import { LogicNode, AnalysisType, LeafGrounding } from '../types';
+import { indexNodes, getPrerequisites, resolveRefs } from './logicGraph';
+import { downloadText } from './download';
+
+// Xuất sơ đồ phân tích (LogicNode) ra các định dạng để mang sang công cụ khác:
+// Mermaid (Mermaid Live, Obsidian), Graphviz DOT, GraphML (yEd, Gephi), dàn ý Markdown.
+// type / method / reason của từng node được giữ làm thuộc tính; câu gốc (có LaTeX) cũng được giữ.
+
+export type GraphFormat = 'mermaid' | 'dot' | 'graphml' | 'markdown';
+
+export const GRAPH_FORMATS: Record<GraphFormat, { label: string; extension: string; mimeType: string }> = {
+    mermaid: { label: 'Mermaid', extension: 'mmd', mimeType: 'text/plain' },
+    dot: { label: 'DOT', extension: 'dot', mimeType: 'text/vnd.graphviz' },
+    graphml: { label: 'GraphML', extension: 'graphml', mimeType: 'application/xml' },
+    markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' }
+};
+
+export interface MermaidOptions {
+    showTheory?: boolean;
+    theme?: 'default' | 'warm' | 'minimal';
+    showAnalysisArrows?: boolean;
+    showProofArrows?: boolean;
+    grounding?: Record<string, LeafGrounding>;
+}
+
+// Id an toàn cho mọi định dạng, suy ra từ LogicNode.id; id trùng sau khi làm sạch được đánh số thêm
+const createNodeIds = () => {
+    const nodeMap = new Map<string, string>();
+    const usedIds = new Set<string>();
+    return (n: LogicNode): string => {
+        if (nodeMap.has(n.id)) return nodeMap.get(n.id)!;
+        const base = 'n_' + (n.id || 'x').replace(/[^a-zA-Z0-9_]/g, '_');
+        let safeId = base;
+        let k = 2;
+        while (usedIds.has(safeId)) safeId = `${base}_${k++}`;
+        usedIds.add(safeId);
+        nodeMap.set(n.id, safeId);
+        return safeId;
+    };
+};
+
+// Aggressive cleaner for simple diagram labels
+export const cleanLabelText = (text: string): string => {
+    if (!text) return "";
+    let res = text
+        // Remove LaTeX formatting wrappers that clutter simple diagrams
+        .replace(/\\text{([^}]+)}/g, '$1') 
+        .replace(/\\boxed{([^}]+)}/g, '$1')
+        .replace(/\\mathbf{([^}]+)}/g, '$1')
+        .replace(/\\mathrm{([^}]+)}/g, '$1')
+        .replace(/\\left/g, '')
+        .replace(/\\right/g, '')
+        // Replace geometry symbols with unicode
+        .replace(/\\triangle/g, '△')
+        .replace(/\\angle/g, '∠')
+        .replace(/\\perp/g, '⊥')
+        .replace(/\\parallel/g, '∥')
+        .replace(/\\rightarrow/g, '→')
+        .replace(/\\Rightarrow/g, '⇒')
+        .replace(/\\Leftrightarrow/g, '⇔')
+        .replace(/\\circ/g, '°')
+        .replace(/\\sim/g, '∽')
+        .replace(/\\cong/g, '≅')
+        .replace(/\\equiv/g, '≡')
+        .replace(/\\in/g, '∈')
+        .replace(/\\subset/g, '⊂')
+        .replace(/\\cdot/g, '•')
+        .replace(/\\times/g, '×')
+        .replace(/\\widehat{([^}]+)}/g, '∠$1') 
+        .replace(/\\hat{([^}]+)}/g, '∠$1')
+        .replace(/\\overline{([^}]+)}/g, '$1')
+        .replace(/\\frac{([^}]+)}{([^}]+)}/g, '$1/$2')
+        .replace(/\^{2}/g, '²')
+        .replace(/\^{circ}/g, '°')
+        .replace(/_([a-zA-Z0-9])/g, '$1') // Flatten subscripts
+        // Remove HTML artifacts
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/?[^>]+(>|$)/g, "") // Strip all other HTML tags
+        // Remove LaTeX dollars and escapes
+        .replace(/\$+/g, '') 
+        .replace(/\\/g, ''); 
+        
+    return res.trim();
+};
+
+// Nguồn Mermaid đúng như sơ đồ "Tổng quát" đang hiển thị
+export const generateMermaidSource = (rootNode: LogicNode, options: MermaidOptions = {}): string => {
+    const { showTheory = true, theme = 'default', showAnalysisArrows = true, showProofArrows = true, grounding } = options;
+    let edges = '';
+    let nodesDefinition = '';
+    let linkStyles = '';
+    let linkIndex = 0;
+    
+    // Id Mermaid suy ra từ LogicNode.id (ổn định giữa các lần vẽ); tiền đề dùng chung chỉ có một id
+    const getNodeId = createNodeIds();
+    const index = indexNodes(rootNode);
+    const defined = new Set<string>();
+    
+    const formatLabel = (n: LogicNode) => {
+        const cleanStatement = cleanLabelText(n.statement || "...");
+        
+        // Simple text wrapping
+        const maxLen = 22; 
+        const wrap = (str: string) => {
+            const words = str.split(' ');
+            let line = '';
+            let result = '';
+            words.forEach(word => {
+                if ((line + word).length > maxLen) {
+                    result += line.trim() + '\n';
+                    line = '';
+                }
+                line += word + ' ';
+            });
+            return result + line.trim();
+        };
+
+        let labelText = wrap(cleanStatement);
+        labelText = labelText.replace(/"/g, "'"); 
+
+        if (showTheory && n.method) {
+            const cleanMethod = cleanLabelText(n.method);
+            if (cleanMethod.length < 35) {
+                 labelText += `\n[${cleanMethod}]`;
+            }
+        }
+        
+        if (grounding?.[n.id] === 'ungrounded') {
+            labelText += `\n(chưa có căn cứ)`;
+        }
+        
+        return `"${labelText}"`;
+    };
+
+    // Determine Layout Direction and Mode
+    // Goal: Conclusion (Root) at BOTTOM. Hypothesis (Children/Leaf) at TOP.
+    
+    // Mode 1: Analysis Only (Up Arrow)
+    // BT: Root --> Child (Root at Bottom, Arrow Up).
+    
+    // Mode 2: Proof Only (Down Arrow)
+    // TD: Child --> Root (Child at Top, Arrow Down).
+    
+    // Mode 3: Both
+    // BT: Root <--> Child.
+    
+    let chartDir = 'BT';
+    if (!showAnalysisArrows && showProofArrows) {
+        chartDir = 'TD'; // Switch to TD to allow Child->Root flow (Down)
+    }
+
+    // Colors
+    const analysisColor = theme === 'warm' ? '#14b8a6' : '#2563eb'; // Blue/Teal
+    const proofColor = theme === 'warm' ? '#f97316' : '#dc2626'; // Red/Orange
+    const bothColor = '#6366f1'; // Indigo
+
+    const traverse = (n: LogicNode) => {
+        if (!n || defined.has(n.id)) return;
+        defined.add(n.id);
+
+        const id = getNodeId(n);
+        const label = formatLabel(n);
+        
+        let styleClass = 'defaultNode';
+        if (n.type === AnalysisType.ROOT) styleClass = 'rootNode';
+        else if (n.type === AnalysisType.LEAF) styleClass = 'leafNode';
+        if (grounding?.[n.id] === 'ungrounded') styleClass = 'ungroundedNode';
+        
+        nodesDefinition += `    ${id}[${label}]:::${styleClass}\n`;
+
+        const prerequisites = getPrerequisites(n, index);
+        if (prerequisites.length > 0) {
+            prerequisites.forEach(child => {
+                if (child) {
+                    const childId = getNodeId(child);
+                    
+                    let arrowSyntax = '---'; 
+                    let strokeColor = '#94a3b8';
+                    let strokeWidth = '1px';
+
+                    if (chartDir === 'BT') {
+                        // Layout: Parent (Bottom) -> Child (Top)
+                        
+                        if (showAnalysisArrows && showProofArrows) {
+                            // Double arrow
+                            arrowSyntax = '<-->';
+                            strokeColor = bothColor;
+                            strokeWidth = '2px';
+                            edges += `    ${id} ${arrowSyntax} ${childId}\n`;
+                        } else if (showAnalysisArrows) {
+                            // Analysis Up: Parent -> Child
+                            arrowSyntax = '-->';
+                            strokeColor = analysisColor;
+                            strokeWidth = '2px';
+                            edges += `    ${id} ${arrowSyntax} ${childId}\n`;
+                        } else {
+                            // Fallback (shouldn't happen with logic above but safe)
+                            arrowSyntax = '---';
+                            edges += `    ${id} ${arrowSyntax} ${childId}\n`;
+                        }
+                    } else {
+                        // ChartDir is TD
+                        // Layout: Child (Top) -> Parent (Bottom)
+                        // This is used for Proof Only mode
+                        
+                        if (showProofArrows) {
+                            // Proof Down: Child -> Parent
+                            arrowSyntax = '-->';
+                            strokeColor = proofColor;
+                            strokeWidth = '2px';
+                            edges += `    ${childId} ${arrowSyntax} ${id}\n`;
+                        }
+                    }
+
+                    // Apply Styles
+                    let styleDef = `stroke:${strokeColor},stroke-width:${strokeWidth},fill:none`;
+                    linkStyles += `    linkStyle ${linkIndex} ${styleDef};\n`;
+                    linkIndex++;
+
+                    traverse(child);
+                }
+            });
+        }
+    };
+
+    traverse(rootNode);
+
+    if (!nodesDefinition) {
+        return `flowchart BT\n    emptyNode["Không có dữ liệu"]\n`;
+    }
+
+    // Colors
+    let defFill = '#ffffff', defStroke = '#cbd5e1', defColor = '#334155';
+    let rootFill = '#eff6ff', rootStroke = '#3b82f6', rootColor = '#1e3a8a'; 
+    let leafFill = '#f0fdf4', leafStroke = '#22c55e', leafColor = '#14532d'; 
+    let ungroundedFill = '#fff7ed', ungroundedStroke = '#ea580c', ungroundedColor = '#7c2d12';
+
+    if (theme === 'warm') {
+        rootFill = '#fff7ed'; rootStroke = '#f97316'; rootColor = '#7c2d12'; 
+        leafFill = '#f0fdfa'; leafStroke = '#14b8a6'; leafColor = '#134e4a'; 
+    } else if (theme === 'minimal') {
+        defFill = '#ffffff'; defStroke = '#000000'; defColor = '#000000';
+        rootFill = '#ffffff'; rootStroke = '#000000'; rootColor = '#000000'; 
+        leafFill = '#ffffff'; leafStroke = '#000000'; leafColor = '#000000'; 
+        ungroundedFill = '#ffffff'; ungroundedStroke = '#000000'; ungroundedColor = '#000000';
+    }
+
+    return `
+flowchart ${chartDir}
+    classDef defaultNode fill:${defFill},stroke:${defStroke},stroke-width:1px,rx:4,ry:4,color:${defColor};
+    classDef rootNode fill:${rootFill},stroke:${rootStroke},stroke-width:2px,rx:6,ry:6,color:${rootColor},font-weight:bold;
+    classDef leafNode fill:${leafFill},stroke:${leafStroke},stroke-width:2px,rx:4,ry:4,color:${leafColor};
+    classDef ungroundedNode fill:${ungroundedFill},stroke:${ungroundedStroke},stroke-width:2px,stroke-dasharray:6 4,rx:4,ry:4,color:${ungroundedColor};
+    
+${nodesDefinition}
+${edges}
+${linkStyles}
+`;
+};
+
+// Cạnh của sơ đồ theo hướng phân tích (kết luận -> tiền đề); kind = 'ref' với tiền đề dùng lại
+interface GraphEdge {
+    from: LogicNode;
+    to: LogicNode;
+    kind: 'child' | 'ref';
+}
+
+const collectGraph = (root: LogicNode): { nodes: LogicNode[]; edges: GraphEdge[] } => {
+    const index = indexNodes(root);
+    const nodes = Array.from(index.values());
+    const edges: GraphEdge[] = [];
+    nodes.forEach(node => {
+        (node.children || []).forEach(child => child && edges.push({ from: node, to: child, kind: 'child' }));
+        resolveRefs(node, index).forEach(ref => edges.push({ from: node, to: ref, kind: 'ref' }));
+    });
+    return { nodes, edges };
+};
+
+const dotString = (text: string): string =>
+    `"${(text || '').replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+
+// Graphviz: kết luận ở dưới (rankdir=BT) như trong ứng dụng; thuộc tính lạ được Graphviz bỏ qua khi vẽ
+export const generateDotSource = (root: LogicNode, grounding?: Record<string, LeafGrounding>): string => {
+    const getNodeId = createNodeIds();
+    const { nodes, edges } = collectGraph(root);
+    const lines = [
+        'digraph GeoSolver {',
+        '    rankdir=BT;',
+        '    node [shape=box, style="rounded,filled", fillcolor="#ffffff", fontname="Inter"];'
+    ];
+    nodes.forEach(n => {
+        const attrs = [
+            `label=${dotString(cleanLabelText(n.statement || '...') + (n.method ? `\n[${cleanLabelText(n.method)}]` : ''))}`,
+            `statement=${dotString(n.statement)}`,
+            `type=${dotString(n.type)}`
+        ];
+        if (n.method) attrs.push(`method=${dotString(n.method)}`);
+        if (n.reason) attrs.push(`reason=${dotString(n.reason)}`);
+        if (grounding?.[n.id]) attrs.push(`grounding=${dotString(grounding[n.id])}`);
+        if (n.type === AnalysisType.ROOT) attrs.push('penwidth=2', 'fillcolor="#eff6ff"');
+        else if (n.type === AnalysisType.LEAF) attrs.push('fillcolor="#f0fdf4"');
+        lines.push(`    ${getNodeId(n)} [${attrs.join(', ')}];`);
+    });
+    edges.forEach(e => {
+        lines.push(`    ${getNodeId(e.from)} -> ${getNodeId(e.to)}${e.kind === 'ref' ? ' [style=dashed, kind="ref"]' : ''};`);
+    });
+    lines.push('}');
+    return lines.join('\n') + '\n';
+};
+
+const xmlEscape = (text: string): string =>
+    (text || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const GRAPHML_NODE_KEYS = ['label', 'statement', 'type', 'method', 'reason', 'grounding'] as const;
+
+export const generateGraphML = (root: LogicNode, grounding?: Record<string, LeafGrounding>): string => {
+    const getNodeId = createNodeIds();
+    const { nodes, edges } = collectGraph(root);
+    const data = (key: string, value?: string) => value ? `\n      <data key="${key}">${xmlEscape(value)}</data>` : '';
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+        ...GRAPHML_NODE_KEYS.map(key => `  <key id="${key}" for="node" attr.name="${key}" attr.type="string"/>`),
+        '  <key id="kind" for="edge" attr.name="kind" attr.type="string"/>',
+        '  <graph id="G" edgedefault="directed">',
+        ...nodes.map(n => `    <node id="${getNodeId(n)}">`
+            + data('label', cleanLabelText(n.statement || '...'))
+            + data('statement', n.statement)
+            + data('type', n.type)
+            + data('method', n.method)
+            + data('reason', n.reason)
+            + data('grounding', grounding?.[n.id])
+            + '\n    </node>'),
+        ...edges.map((e, i) => `    <edge id="e${i}" source="${getNodeId(e.from)}" target="${getNodeId(e.to)}">`
+            + data('kind', e.kind)
+            + '\n    </edge>'),
+        '  </graph>',
+        '</graphml>',
+        ''
+    ].join('\n');
+};
+
+// Dàn ý lồng nhau, đọc từ kết luận xuống giả thiết; giữ nguyên LaTeX ($...$) để Obsidian hiển thị công thức.
+// Tiền đề dùng lại chỉ ghi tên, không lặp cả nhánh con.
+export const generateMarkdownOutline = (root: LogicNode, grounding?: Record<string, LeafGrounding>): string => {
+    const index = indexNodes(root);
+    const lines: string[] = [];
+    const oneLine = (text: string) => (text || '').replace(/\s*\n\s*/g, ' ').trim();
+    const visit = (n: LogicNode, depth: number) => {
+        const pad = '  '.repeat(depth);
+        const attrs = [`\`${n.type}\``];
+        if (n.method) attrs.push(`*${oneLine(n.method)}*`);
+        if (grounding?.[n.id]) attrs.push(`\`${grounding[n.id]}\``);
+        lines.push(`${pad}- ${oneLine(n.statement || '...')} · ${attrs.join(' · ')}`);
+        if (n.reason) lines.push(`${pad}  > ${oneLine(n.reason)}`);
+        (n.children || []).forEach(child => child && visit(child, depth + 1));
+        resolveRefs(n, index).forEach(ref => lines.push(`${pad}  - ↺ Dùng lại: ${oneLine(ref.statement)}`));
+    };
+    visit(root, 0);
+    return lines.join('\n') + '\n';
+};
+
+export const serializeGraph = (root: LogicNode, format: GraphFormat, options: MermaidOptions = {}): string => {
+    switch (format) {
+        case 'mermaid': return generateMermaidSource(root, options);
+        case 'dot': return generateDotSource(root, options.grounding);
+        case 'graphml': return generateGraphML(root, options.grounding);
+        case 'markdown': return generateMarkdownOutline(root, options.grounding);
+    }
+};
+
+export const downloadGraph = (root: LogicNode, format: GraphFormat, fileName: string, options: MermaidOptions = {}) => {
+    const { extension, mimeType } = GRAPH_FORMATS[format];
+    downloadText(serializeGraph(root, format, options), `${fileName}.${extension}`, mimeType);
+};
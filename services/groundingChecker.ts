@@ -0,0 +1,104 @@
+import { GeometryResponse, AnalysisBranch, LogicNode, AnalysisType, LeafGrounding } from '../types';
+
+// Truy nguồn gốc của từng node LEAF: mọi "điểm xuất phát" của sơ đồ phải là giả thiết,
+// kiến thức trong SGK hoặc điều nhìn thấy trực tiếp trên hình. Hướng giải có LEAF
+// không rõ căn cứ thì không thể coi là "đã hoàn thành".
+
+export const GROUNDING_LABELS: Record<LeafGrounding, { label: string; icon: string; hint: string }> = {
+    given: { label: "Giả thiết", icon: '📌', hint: "Khớp với giả thiết của đề (hoặc kết quả câu trước)." },
+    textbook: { label: "Kiến thức SGK", icon: '📘', hint: "Định lý / tính chất đã học, áp dụng vào dữ kiện của bài." },
+    figure: { label: "Nhìn từ hình vẽ", icon: '📐', hint: "Điều hiển nhiên trên hình (cạnh chung, góc kề bù, đối đỉnh...)." },
+    ungrounded: { label: "Chưa có căn cứ", icon: '❓', hint: "Không khớp giả thiết hay kiến thức nào đã biết. Cần chứng minh thêm hoặc xem lại." }
+};
+
+const FIGURE_HINTS = /quan sát hình|nhìn hình|theo hình vẽ|hiển nhiên|cạnh chung|góc chung|đối đỉnh|kề bù|thẳng hàng/;
+const TEXTBOOK_HINTS = /định lý|định lí|tính chất|định nghĩa|hệ quả|tiên đề|trường hợp|dấu hiệu|công thức|bất đẳng thức|pythagore|pytago|thalès|thales|talet|tổng ba góc/;
+
+// Dạng chuẩn để so khớp: bỏ $, khoảng trắng, từ nối; AB = BA; ∠ABC = ∠CBA
+const canonical = (text: string): string =>
+    (text || '')
+        .replace(/\$/g, '')
+        .replace(/\\left|\\right|\\,|\\;|~/g, '')
+        .replace(/\\(?:triangle|Delta)\s*|Δ\s*|[Tt]am giác\s*/g, '△')
+        .replace(/(?<!\p{L})[Gg]óc\s+(?=[A-Z]{3}(?![A-Za-z]))/gu, '∠')
+        .replace(/\\widehat\s*\{\s*([A-Z])([A-Z])([A-Z])\s*\}|∠\s*([A-Z])([A-Z])([A-Z])/g, (_m, a, b, c, d, e, f) => {
+            const [x, v, y] = a ? [a, b, c] : [d, e, f];
+            return `∠${[x, y].sort()[0]}${v}${[x, y].sort()[1]}`;
+        })
+        .replace(/(?<![A-Za-z\\△∠])([A-Z])([A-Z])(?![A-Za-z])/g, (_m, a, b) => [a, b].sort().join(''))
+        .replace(/(?<!\p{L})(của|đoạn thẳng|đoạn|do|vì|theo|có|gt)(?!\p{L})/giu, '')
+        .replace(/[\s(){}.,;:]/g, '')
+        .toLowerCase();
+
+// "AB = AC" khớp "AC = AB"
+export const sameFact = (a: string, b: string): boolean => {
+    const ca = canonical(a), cb = canonical(b);
+    if (!ca || !cb) return false;
+    if (ca === cb) return true;
+    const sides = (c: string) => c.split('=').sort().join('=');
+    if (ca.includes('=') && sides(ca) === sides(cb)) return true;
+    return false;
+};
+
+const mentions = (text: string, fact: string): boolean => {
+    const ct = canonical(text), cf = canonical(fact);
+    return cf.length >= 4 && ct.includes(cf);
+};
+
+export const classifyLeaf = (leaf: LogicNode, knownFacts: string[], data: GeometryResponse): LeafGrounding => {
+    const method = (leaf.method || '').toLowerCase();
+    const reason = (leaf.reason || '').toLowerCase();
+    const statement = (leaf.statement || '').toLowerCase();
+
+    if (knownFacts.some(f => sameFact(leaf.statement, f))) return 'given';
+
+    const isTextbookMethod = !!leaf.catalog_id || TEXTBOOK_HINTS.test(method) ||
+        (data.knowledge_used || []).some(k => k.name && (mentions(leaf.method || '', k.name) || mentions(k.name, leaf.method || '')));
+
+    // Lý do trích lại một giả thiết: hoặc là chính giả thiết, hoặc là một tính chất áp dụng vào giả thiết
+    if (knownFacts.some(f => mentions(leaf.reason || '', f))) return isTextbookMethod ? 'textbook' : 'given';
+
+    if (FIGURE_HINTS.test(method) || FIGURE_HINTS.test(reason) || FIGURE_HINTS.test(statement)) return 'figure';
+    if (isTextbookMethod || TEXTBOOK_HINTS.test(statement)) return 'textbook';
+    return 'ungrounded';
+};
+
+const collectLeaves = (node: LogicNode, out: LogicNode[] = []): LogicNode[] => {
+    if (!node) return out;
+    if (node.type === AnalysisType.LEAF || (!node.children?.length && !node.refs?.length)) {
+        if (node.type !== AnalysisType.ROOT) out.push(node);
+    }
+    node.children?.forEach(c => collectLeaves(c, out));
+    return out;
+};
+
+// Tính lại trạng thái: "success" mà còn LEAF chưa có căn cứ thì hạ xuống "partial"
+export const groundBranch = (branch: AnalysisBranch, knownFacts: string[], data: GeometryResponse): AnalysisBranch => {
+    if (branch.pending) return branch;
+    const grounding: Record<string, LeafGrounding> = {};
+    collectLeaves(branch.root).forEach(leaf => {
+        grounding[leaf.id] = classifyLeaf(leaf, knownFacts, data);
+    });
+
+    const reported = branch.reported_status || branch.status;
+    const ungrounded = Object.values(grounding).filter(g => g === 'ungrounded').length;
+    return {
+        ...branch,
+        grounding,
+        reported_status: reported,
+        status: reported === 'success' && ungrounded > 0 ? 'partial' : reported
+    };
+};
+
+export const applyGrounding = (data: GeometryResponse): GeometryResponse => {
+    const hypotheses = data.hypothesis || [];
+    const branches = (data.branches || []).map((branch, index, all) => {
+        // Câu sau được dùng kết luận của các câu trước như giả thiết
+        const earlier = all.slice(0, index).filter(b => !b.pending).map(b => b.root.statement);
+        return groundBranch(branch, [...hypotheses, ...earlier], data);
+    });
+    return { ...data, branches };
+};
+
+export const countUngrounded = (branch: AnalysisBranch): number =>
+    Object.values(branch.grounding || {}).filter(g => g === 'ungrounded').length;
@@ -0,0 +1,97 @@
+import { LogicNode, GeometryResponse, AnalysisType, LeafGrounding } from '../types';
+import { getPrerequisites } from './logicGraph';
+import { resolveNodeKnowledge } from './theoremCatalog';
+import { GROUNDING_LABELS } from './groundingChecker';
+
+// Thang gợi ý cho từng node (gia sư không nói hết ngay):
+// 1) cần loại dữ kiện gì, 2) thuộc nhóm kiến thức nào, 3) định lý cụ thể, 4) các mệnh đề con.
+
+export interface Hint {
+    level: number; // 1..4
+    label: string;
+    text: string;
+}
+
+export const HINT_LABELS = ["Loại dữ kiện", "Nhóm kiến thức", "Định lý cụ thể", "Các bước con"];
+
+// Nhận dạng loại mệnh đề, thứ tự quan trọng (dạng cụ thể đứng trước)
+const FACT_KINDS: { pattern: RegExp; kind: string }[] = [
+    { pattern: /(\\triangle|\\Delta|Δ|△|tam giác)[^=]*=\s*\$?\s*(\\triangle|\\Delta|Δ|△|tam giác)/i, kind: "hai tam giác bằng nhau" },
+    { pattern: /\\sim|∽|đồng dạng/i, kind: "hai tam giác đồng dạng" },
+    { pattern: /\\perp|⊥|vuông góc/i, kind: "quan hệ vuông góc" },
+    { pattern: /\\parallel|∥|\/\/|song song/i, kind: "quan hệ song song" },
+    { pattern: /(\\widehat|∠|góc)[^+]*\+.*(180|90)/i, kind: "tổng số đo các góc" },
+    { pattern: /nội tiếp|tiếp tuyến|đường tròn/i, kind: "quan hệ với đường tròn" },
+    { pattern: /trung điểm|trung tuyến|đường trung bình/i, kind: "trung điểm / đường trung bình" },
+    { pattern: /thẳng hàng/i, kind: "ba điểm thẳng hàng" },
+    { pattern: /chung/i, kind: "yếu tố chung trên hình" },
+    { pattern: /cân|đều|vuông tại/i, kind: "dạng đặc biệt của tam giác" },
+    { pattern: /\\frac|tỉ số|tỉ lệ/i, kind: "tỉ số các đoạn thẳng" },
+    { pattern: /(\\widehat|∠|góc)[^=]*=/i, kind: "hai góc bằng nhau" },
+    { pattern: /[A-Z]{2}\s*=\s*[A-Z]{2}/, kind: "hai đoạn thẳng bằng nhau" }
+];
+
+// Nhóm kiến thức đoán từ tên phương pháp khi không có trong danh mục SGK
+const FAMILIES: { pattern: RegExp; family: string }[] = [
+    { pattern: /câu [a-z]\b|đã chứng minh/i, family: "Kết quả đã chứng minh ở câu trước" },
+    { pattern: /c\.\s*[cg]\.\s*[cg]|trường hợp bằng nhau|cạnh huyền|cạnh góc vuông|tương ứng/i, family: "Các trường hợp bằng nhau của tam giác" },
+    { pattern: /đồng dạng|\bg\.\s*g\b/i, family: "Tam giác đồng dạng" },
+    { pattern: /thal[eè]s|talet/i, family: "Định lý Thalès" },
+    { pattern: /pythagore|pytago/i, family: "Định lý Pythagore" },
+    { pattern: /song song|so le|đồng vị|trong cùng phía/i, family: "Hai đường thẳng song song" },
+    { pattern: /kề bù|đối đỉnh|tổng ba góc|phân giác/i, family: "Góc và các góc ở vị trí đặc biệt" },
+    { pattern: /cân|đều/i, family: "Tam giác cân, tam giác đều" },
+    { pattern: /vuông góc|đường xiên/i, family: "Hai đường thẳng vuông góc" },
+    { pattern: /trung tuyến|trọng tâm|trung trực|đường cao|trực tâm/i, family: "Các đường đồng quy của tam giác" },
+    { pattern: /đường tròn|nội tiếp|tiếp tuyến|dây|cung/i, family: "Đường tròn" },
+    { pattern: /giả thiết|\bgt\b/i, family: "Giả thiết của đề bài" },
+    { pattern: /quan sát|hình vẽ|hiển nhiên|chung/i, family: "Quan sát trên hình vẽ" }
+];
+
+export const describeFactKind = (statement: string): string =>
+    FACT_KINDS.find(k => k.pattern.test(statement || ''))?.kind || "một tính chất hình học";
+
+const listKinds = (nodes: LogicNode[]): string => {
+    const counts = new Map<string, number>();
+    nodes.forEach(n => {
+        const kind = describeFactKind(n.statement);
+        counts.set(kind, (counts.get(kind) || 0) + 1);
+    });
+    return [...counts.entries()].map(([kind, count]) => count > 1 ? `${kind} (×${count})` : kind).join('; ');
+};
+
+const clean = (text: string): string => text.trim().replace(/([^.!?])$/, '$1.');
+
+export const buildHintLadder = (
+    node: LogicNode,
+    data: GeometryResponse,
+    index: Map<string, LogicNode>,
+    grounding?: LeafGrounding
+): Hint[] => {
+    const premises = getPrerequisites(node, index);
+    const entry = resolveNodeKnowledge(node, data);
+    const isLeaf = node.type === AnalysisType.LEAF || premises.length === 0;
+
+    const kindText = isLeaf
+        ? (grounding && grounding !== 'ungrounded'
+            ? `Không cần chứng minh thêm, điều này đã có (${GROUNDING_LABELS[grounding].label}).`
+            : "Không cần chứng minh thêm: hãy tìm trong giả thiết, hình vẽ hoặc kiến thức đã học.")
+        : `Để có điều này, cần chỉ ra: ${listKinds(premises)}.`;
+
+    const guessed = FAMILIES.find(f => f.pattern.test(`${node.method || ''} ${node.reason || ''}`));
+    const familyText = entry
+        ? `Nhóm kiến thức: ${entry.lesson} (Toán ${entry.grade}).`
+        : guessed
+            ? `Nhóm kiến thức: ${guessed.family}.`
+            : `Hãy nghĩ tới một định nghĩa hoặc tính chất về ${describeFactKind(node.statement)}.`;
+
+    const exactText = entry
+        ? `${entry.name}: ${entry.statement}`
+        : node.method
+            ? clean(node.method) + (node.reason ? ` ${clean(node.reason)}` : '')
+            : node.reason ? clean(node.reason) : "Sơ đồ không ghi định lý riêng cho bước này.";
+
+    const texts = [kindText, familyText, exactText];
+    if (!isLeaf) texts.push(`Cần có: ${premises.map(p => p.statement).join('; ')}`);
+    return texts.map((text, i) => ({ level: i + 1, label: HINT_LABELS[i], text }));
+};
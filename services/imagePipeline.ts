@@ -0,0 +1,222 @@
+import { ModelImage } from './modelProviders';
+
+// Xử lý ảnh phía trình duyệt trước khi gửi cho model:
+// nhận diện định dạng thật, xoay theo EXIF, thu nhỏ, cắt vùng chứa bài toán.
+
+export interface ProcessedImage extends ModelImage {
+    id: string;
+    name: string;
+    width: number;
+    height: number;
+}
+
+// Vùng cắt theo tỉ lệ (0..1) so với kích thước ảnh
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const MAX_IMAGE_SIDE = 1600;
+export const MAX_IMAGES = 4;
+export const THUMBNAIL_SIDE = 160;
+const JPEG_QUALITY = 0.88;
+
+const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/bmp'];
+
+// Nhận diện định dạng qua "magic bytes" thay vì tin vào phần mở rộng / file.type
+export const detectImageMime = (bytes: Uint8Array): string | null => {
+    const ascii = (from: number, to: number) => String.fromCharCode(...Array.from(bytes.subarray(from, to)));
+
+    if (bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF) return 'image/jpeg';
+    if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+    if (ascii(0, 4) === 'GIF8') return 'image/gif';
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+    if (ascii(0, 2) === 'BM') return 'image/bmp';
+    if (ascii(4, 8) === 'ftyp' && /^(heic|heix|hevc|heim|heis|mif1|msf1)$/.test(ascii(8, 12))) return 'image/heic';
+    return null;
+};
+
+// Đọc tag Orientation (0x0112) trong khối EXIF của ảnh JPEG. Trả về 1 nếu không có.
+export const readExifOrientation = (bytes: Uint8Array): number => {
+    if (bytes[0] !== 0xFF || bytes[1] !== 0xD8) return 1;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 2;
+
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) break; // Hết header / bắt đầu dữ liệu ảnh
+        const size = view.getUint16(offset + 2);
+
+        if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+            const tiff = offset + 10;
+            if (tiff + 8 > view.byteLength) return 1;
+            const little = view.getUint16(tiff) === 0x4949;
+            const ifd0 = tiff + view.getUint32(tiff + 4, little);
+            if (ifd0 + 2 > view.byteLength) return 1;
+            const entries = view.getUint16(ifd0, little);
+            for (let i = 0; i < entries; i++) {
+                const entry = ifd0 + 2 + i * 12;
+                if (entry + 12 > view.byteLength) break;
+                if (view.getUint16(entry, little) === 0x0112) {
+                    const value = view.getUint16(entry + 8, little);
+                    return value >= 1 && value <= 8 ? value : 1;
+                }
+            }
+            return 1;
+        }
+        offset += 2 + size;
+    }
+    return 1;
+};
+
+interface DecodedImage {
+    source: CanvasImageSource;
+    width: number;
+    height: number;
+    orientation: number; // Orientation còn phải áp dụng (1 nếu trình duyệt đã tự xoay)
+}
+
+const loadWithImgElement = (blob: Blob): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(blob);
+        const img = new Image();
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(img);
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error("Trình duyệt không đọc được ảnh này."));
+        };
+        img.src = url;
+    });
+
+const decodeImage = async (blob: Blob, orientation: number): Promise<DecodedImage> => {
+    try {
+        // Tự áp dụng EXIF để kết quả giống nhau trên mọi trình duyệt
+        const bitmap = await createImageBitmap(blob, { imageOrientation: 'none' });
+        return { source: bitmap, width: bitmap.width, height: bitmap.height, orientation };
+    } catch (e) {
+        // Trình duyệt cũ: <img> đã tự xoay theo EXIF
+        const img = await loadWithImgElement(blob);
+        return { source: img, width: img.naturalWidth, height: img.naturalHeight, orientation: 1 };
+    }
+};
+
+const canvasToImage = (canvas: HTMLCanvasElement, mimeType: string, name: string, id: string): ProcessedImage => {
+    const dataUrl = canvas.toDataURL(mimeType, JPEG_QUALITY);
+    return {
+        id,
+        name,
+        mimeType,
+        data: dataUrl.split(',')[1],
+        width: canvas.width,
+        height: canvas.height
+    };
+};
+
+// Ảnh chụp -> JPEG; ảnh vẽ/chụp màn hình (PNG, GIF) giữ PNG để nét chữ không bị nhòe
+const outputMimeFor = (sourceMime: string) =>
+    sourceMime === 'image/png' || sourceMime === 'image/gif' ? 'image/png' : 'image/jpeg';
+
+const newImageId = () => 'img_' + Date.now().toString(36) + Math.random().toString(36).substr(2, 4);
+
+export const processImageFile = async (file: File): Promise<ProcessedImage> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const mime = detectImageMime(bytes);
+
+    if (mime === 'image/heic') {
+        throw new Error(`Ảnh "${file.name}" ở định dạng HEIC chưa được hỗ trợ. Hãy chụp lại ở chế độ JPG hoặc chuyển đổi trước khi tải lên.`);
+    }
+    if (!mime || !SUPPORTED_MIME_TYPES.includes(mime)) {
+        throw new Error(`Tệp "${file.name}" không phải ảnh hợp lệ (chỉ hỗ trợ JPG, PNG, WEBP, GIF, BMP).`);
+    }
+
+    const orientation = mime === 'image/jpeg' ? readExifOrientation(bytes) : 1;
+    const decoded = await decodeImage(new Blob([bytes], { type: mime }), orientation);
+
+    const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(decoded.width, decoded.height));
+    const w = Math.round(decoded.width * scale);
+    const h = Math.round(decoded.height * scale);
+    const swap = decoded.orientation >= 5;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = swap ? h : w;
+    canvas.height = swap ? w : h;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Không khởi tạo được canvas để xử lý ảnh.");
+
+    const outputMime = outputMimeFor(mime);
+    if (outputMime === 'image/jpeg') {
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    // Ma trận biến đổi chuẩn cho 8 giá trị EXIF Orientation
+    switch (decoded.orientation) {
+        case 2: ctx.transform(-1, 0, 0, 1, w, 0); break;
+        case 3: ctx.transform(-1, 0, 0, -1, w, h); break;
+        case 4: ctx.transform(1, 0, 0, -1, 0, h); break;
+        case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+        case 6: ctx.transform(0, 1, -1, 0, h, 0); break;
+        case 7: ctx.transform(0, -1, -1, 0, h, w); break;
+        case 8: ctx.transform(0, -1, 1, 0, 0, w); break;
+    }
+    ctx.drawImage(decoded.source, 0, 0, w, h);
+    if ('close' in decoded.source) (decoded.source as ImageBitmap).close();
+
+    return canvasToImage(canvas, outputMime, file.name, newImageId());
+};
+
+const loadProcessed = (image: ProcessedImage): Promise<HTMLImageElement> =>
+    loadWithImgElement(new Blob([Uint8Array.from(atob(image.data), c => c.charCodeAt(0))], { type: image.mimeType }));
+
+export const cropImage = async (image: ProcessedImage, rect: CropRect): Promise<ProcessedImage> => {
+    const img = await loadProcessed(image);
+    const sx = Math.round(rect.x * image.width);
+    const sy = Math.round(rect.y * image.height);
+    const sw = Math.max(1, Math.round(rect.width * image.width));
+    const sh = Math.max(1, Math.round(rect.height * image.height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = sw;
+    canvas.height = sh;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Không khởi tạo được canvas để cắt ảnh.");
+    ctx.drawImage(img, sx, sy, sw, sh, 0, 0, sw, sh);
+
+    return canvasToImage(canvas, image.mimeType, image.name, image.id);
+};
+
+// Xoay thêm 90° theo chiều kim đồng hồ (khi ảnh không có EXIF hoặc EXIF sai)
+export const rotateImageClockwise = async (image: ProcessedImage): Promise<ProcessedImage> => {
+    const img = await loadProcessed(image);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.height;
+    canvas.height = image.width;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Không khởi tạo được canvas để xoay ảnh.");
+    ctx.transform(0, 1, -1, 0, image.height, 0);
+    ctx.drawImage(img, 0, 0);
+
+    return canvasToImage(canvas, image.mimeType, image.name, image.id);
+};
+
+export const toDataUrl = (image: ModelImage) => `data:${image.mimeType};base64,${image.data}`;
+
+// Ảnh thu nhỏ (JPEG data URL) để hiển thị trong thư viện bài đã giải
+export const makeThumbnail = async (image: ProcessedImage, maxSide: number = THUMBNAIL_SIDE): Promise<string> => {
+    const img = await loadProcessed(image);
+    const scale = Math.min(1, maxSide / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Không khởi tạo được canvas để tạo ảnh thu nhỏ.");
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7);
+};
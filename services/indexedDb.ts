@@ -0,0 +1,29 @@
+// Tiện ích nhỏ bọc IndexedDB bằng Promise (dùng chung cho cache và thư viện bài giải)
+
+export const isIndexedDbAvailable = (): boolean =>
+    typeof indexedDB !== 'undefined';
+
+export const openDatabase = (name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        if (!isIndexedDbAvailable()) {
+            reject(new Error("Trình duyệt không hỗ trợ IndexedDB."));
+            return;
+        }
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
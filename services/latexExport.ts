@@ -0,0 +1,178 @@
+import { GeometryResponse, AnalysisBranch, LogicNode, AnalysisType } from '../types';
+import { normalizeLatex } from './latexNormalize';
+import { indexNodes, resolveRefs } from './logicGraph';
+import { branchKnowledge } from './theoremCatalog';
+import { downloadText, fileSlug } from './download';
+
+// Xuất một hướng giải thành tệp .tex biên dịch được (pdflatex, gói vntex cho tiếng Việt):
+// đề bài, bảng GT/KL, sơ đồ phân tích vẽ bằng forest (kết luận ở dưới, giả thiết ở trên như trong ứng dụng),
+// lời giải trong enumerate và kiến thức sử dụng. Công thức giữ nguyên, chỉ chuẩn hóa như MathDisplay.
+
+// Ký hiệu unicode model hay viết thẳng vào câu; pdflatex không có glyph nên đổi sang lệnh toán
+const UNICODE_MATH: [string, string][] = [
+    ['△', '\\triangle'], ['∆', '\\triangle'], ['∠', '\\angle'], ['⊥', '\\perp'], ['∥', '\\parallel'],
+    ['°', '^\\circ'], ['≅', '\\cong'], ['∽', '\\backsim'], ['≠', '\\neq'], ['≤', '\\leq'], ['≥', '\\geq'],
+    ['⇒', '\\Rightarrow'], ['⇔', '\\Leftrightarrow'], ['→', '\\rightarrow'], ['∈', '\\in'], ['⊂', '\\subset'],
+    ['×', '\\times'], ['·', '\\cdot'], ['²', '^2'], ['√', '\\sqrt']
+];
+
+const TEXT_ESCAPES: Record<string, string> = {
+    '\\': '\\textbackslash{}', '&': '\\&', '%': '\\%', '$': '\\$', '#': '\\#', '_': '\\_',
+    '{': '\\{', '}': '\\}', '~': '\\textasciitilde{}', '^': '\\textasciicircum{}'
+};
+
+// Cùng cách tách công thức với MathDisplay: $$...$$, \[...\], \(...\), $...$
+const MATH_DELIMITERS = /(\$\$[\s\S]*?\$\$|\\\[[\s\S]*?\\\]|\\\([\s\S]*?\\\)|(?:\$)(?:[^$]|\\[\s\S])*(?:\$))/g;
+// Lệnh LaTeX viết "trần" ngoài dấu $, kể cả số đo độ kiểu 90^\circ
+const NAKED_COMMAND = /((?:\d+\^)?\\[a-zA-Z]+(?:\{[^{}]*\})*)/g;
+
+// Cùng phép đoán với MathDisplay: đoạn ngắn không có dấu $ nhưng có lệnh / dấu "=" thì cả đoạn là công thức
+const looksLikeMath = (part: string): boolean =>
+    /\\[a-zA-Z]+|[=+\-><]|\^/.test(part)
+    && !/[\u00C0-\u1EF9]/.test(part) // Chữ tiếng Việt trong môi trường toán không biên dịch được
+    && part.trim().length < 50
+    && (part.includes('\\') || part.includes('='));
+
+const mathBody = (latex: string): string => {
+    let raw = normalizeLatex(latex.trim());
+    UNICODE_MATH.forEach(([symbol, command]) => { raw = raw.split(symbol).join(`${command} `); });
+    return raw;
+};
+
+const escapeText = (text: string): string => {
+    let escaped = text.replace(/[\\&%$#_{}~^]/g, c => TEXT_ESCAPES[c]);
+    UNICODE_MATH.forEach(([symbol, command]) => { escaped = escaped.split(symbol).join(`$${command}$`); });
+    return escaped;
+};
+
+const plainText = (text: string): string =>
+    text.split(NAKED_COMMAND).map((part, i) => i % 2 === 1 ? `$${mathBody(part)}$` : escapeText(part)).join('');
+
+// Câu có công thức -> mã LaTeX: công thức giữ nguyên, chữ được escape, **đậm** -> \textbf
+export const toLatex = (text: string): string =>
+    (text || '').split(MATH_DELIMITERS).map((part, i) => {
+        if (!part) return '';
+        if (i % 2 === 1) {
+            if (part.startsWith('$$') || part.startsWith('\\[')) return `\\[ ${mathBody(part.slice(2, -2))} \\]`;
+            if (part.startsWith('\\(')) return `$${mathBody(part.slice(2, -2))}$`;
+            return `$${mathBody(part.slice(1, -1))}$`;
+        }
+        if (looksLikeMath(part)) return part.replace(/^(\s*)([\s\S]*?)(\s*)$/, (_, before, math, after) => `${before}$${mathBody(math)}$${after}`);
+        return part.split(/(\*\*[^*]+\*\*)/g)
+            .map(sub => sub.startsWith('**') && sub.endsWith('**') ? `\\textbf{${plainText(sub.slice(2, -2))}}` : plainText(sub))
+            .join('');
+    }).join('');
+
+// Sơ đồ phân tích dạng forest. Tiền đề dùng lại (refs) vẽ thêm bằng mũi tên nét đứt sau cây.
+export const buildForestTree = (root: LogicNode): string => {
+    const index = indexNodes(root);
+    const names = new Map<string, string>();
+    const used = new Set<string>();
+    const nameOf = (node: LogicNode): string => {
+        if (names.has(node.id)) return names.get(node.id)!;
+        const base = 'n' + (node.id || 'x').replace(/[^a-zA-Z0-9]/g, '');
+        let name = base;
+        let k = 2;
+        while (used.has(name)) name = `${base}x${k++}`;
+        used.add(name);
+        names.set(node.id, name);
+        return name;
+    };
+
+    const extraEdges: string[] = [];
+    const defined = new Set<string>();
+    const renderNode = (node: LogicNode, depth: number): string => {
+        const pad = '    '.repeat(depth);
+        defined.add(node.id);
+        const label = toLatex(node.statement || '...') + (node.method ? ` \\\\ {\\footnotesize\\itshape ${toLatex(node.method)}}` : '');
+        const style = node.type === AnalysisType.ROOT ? ', root' : node.type === AnalysisType.LEAF ? ', leaf' : '';
+        resolveRefs(node, index).forEach(ref => extraEdges.push(`    \\draw[->, dashed] (${nameOf(ref)}) to[bend left=15] (${nameOf(node)});`));
+        const children = (node.children || []).filter(c => c && !defined.has(c.id));
+        const inner = children.map(c => '\n' + renderNode(c, depth + 1)).join('');
+        return `${pad}[{${label}}, name=${nameOf(node)}${style}${inner}${children.length ? '\n' + pad : ''}]`;
+    };
+
+    const tree = renderNode(root, 1);
+    return [
+        '\\begin{forest}',
+        '    for tree={draw, rounded corners, align=center, text width=4.2cm, font=\\small, grow\'=north, l sep=8mm, s sep=4mm, edge={<-}},',
+        '    root/.style={very thick},',
+        '    leaf/.style={fill=black!8},',
+        tree,
+        ...extraEdges,
+        '\\end{forest}'
+    ].join('\n');
+};
+
+// Lời giải chỉ có dạng chữ: mỗi dòng một bước, bỏ số thứ tự model đã tự đánh (dùng cả cho bản in)
+export const forwardProofLines = (forwardProof: string = ''): string[] =>
+    forwardProof.split('\n')
+        .map(line => line.trim().replace(/^(?:Bước\s*)?\d+\s*[.):]\s*/i, ''))
+        .filter(Boolean);
+
+const proofItems = (branch: AnalysisBranch): string[] => {
+    if (branch.proof_steps?.length) {
+        return branch.proof_steps.map(step =>
+            toLatex(step.statement) + (step.justification ? ` (${toLatex(step.justification)})` : ''));
+    }
+    return forwardProofLines(branch.forward_proof).map(toLatex);
+};
+
+export const buildLatexDocument = (data: GeometryResponse, branch: AnalysisBranch, problem: string = ''): string => {
+    const items = proofItems(branch);
+    const knowledge = branchKnowledge(branch.root, data);
+    const hypotheses = data.hypothesis.length ? data.hypothesis.map(toLatex).join(' \\newline ') : '';
+
+    return [
+        '% Tạo bởi GeoSolver CTST. Biên dịch: pdflatex (cần gói vntex, forest, adjustbox).',
+        '\\documentclass[12pt,a4paper]{article}',
+        '\\usepackage[utf8]{inputenc}',
+        '\\usepackage[T5]{fontenc}',
+        '\\usepackage[vietnamese]{babel}',
+        '\\usepackage[margin=2cm]{geometry}',
+        '\\usepackage{amsmath,amssymb}',
+        '\\usepackage{forest}',
+        '\\usepackage{adjustbox}',
+        '\\usepackage{enumitem}',
+        '\\setlength{\\parindent}{0pt}',
+        '',
+        '\\begin{document}',
+        '',
+        '\\section*{Đề bài}',
+        problem.trim() ? problem.trim().split(/\n+/).map(toLatex).join('\n\n') : '\\textit{Đề bài dạng ảnh.}',
+        '',
+        '\\medskip',
+        '\\begin{tabular}{|c|p{0.8\\textwidth}|}',
+        '\\hline',
+        `GT & ${hypotheses} \\\\`,
+        '\\hline',
+        `KL & ${toLatex(data.conclusion)} \\\\`,
+        '\\hline',
+        '\\end{tabular}',
+        '',
+        `\\section*{Sơ đồ phân tích: ${toLatex(branch.name)}}`,
+        '\\begin{center}',
+        '\\begin{adjustbox}{max width=\\textwidth}',
+        buildForestTree(branch.root),
+        '\\end{adjustbox}',
+        '\\end{center}',
+        '',
+        '\\section*{Lời giải}',
+        items.length
+            ? ['\\begin{enumerate}[label=\\arabic*.]', ...items.map(item => `    \\item ${item}`), '\\end{enumerate}'].join('\n')
+            : '\\textit{Chưa có lời giải.}',
+        ...(knowledge.length ? [
+            '',
+            '\\section*{Kiến thức sử dụng}',
+            '\\begin{itemize}',
+            ...knowledge.map(k => `    \\item \\textbf{${toLatex(k.name)}}${k.textbook_ref ? ` (${toLatex(k.textbook_ref)})` : ''}${k.description ? `: ${toLatex(k.description)}` : ''}`),
+            '\\end{itemize}'
+        ] : []),
+        '',
+        '\\end{document}',
+        ''
+    ].join('\n');
+};
+
+export const downloadLatexDocument = (data: GeometryResponse, branch: AnalysisBranch, problem: string = '') =>
+    downloadText(buildLatexDocument(data, branch, problem), `${fileSlug(problem || data.conclusion)}.tex`, 'application/x-tex');
@@ -0,0 +1,46 @@
+import { LogicNode } from '../types';
+
+// Sơ đồ phân tích là cây (children) cộng thêm các cạnh dùng lại (refs) -> một DAG.
+// Mỗi node chỉ được định nghĩa một lần ở vị trí "children" của nó; refs chỉ trỏ tới id.
+
+export const indexNodes = (root: LogicNode): Map<string, LogicNode> => {
+    const index = new Map<string, LogicNode>();
+    const visit = (n: LogicNode) => {
+        if (!n || index.has(n.id)) return;
+        index.set(n.id, n);
+        n.children?.forEach(visit);
+    };
+    visit(root);
+    return index;
+};
+
+// Các node được dùng lại (không phải con trực tiếp) làm tiền đề của node này
+export const resolveRefs = (node: LogicNode, index: Map<string, LogicNode>): LogicNode[] =>
+    (node.refs || []).map(id => index.get(id)).filter((n): n is LogicNode => !!n);
+
+// Toàn bộ tiền đề: con trực tiếp + node dùng lại
+export const getPrerequisites = (node: LogicNode, index: Map<string, LogicNode>): LogicNode[] =>
+    [...(node.children || []), ...resolveRefs(node, index)];
+
+// Số node cần tới mỗi node (>1 nghĩa là tiền đề dùng chung)
+export const countParents = (root: LogicNode): Map<string, number> => {
+    const index = indexNodes(root);
+    const counts = new Map<string, number>();
+    index.forEach(n => getPrerequisites(n, index).forEach(p => counts.set(p.id, (counts.get(p.id) || 0) + 1)));
+    return counts;
+};
+
+// Node có chứa id trong cây con (theo children) hay không
+export const containsNode = (node: LogicNode, id: string): boolean =>
+    !!node && (node.id === id || (node.children || []).some(c => containsNode(c, id)));
+
+// Đường đi theo children từ gốc tới node có id (rỗng nếu không có trong cây)
+export const findPath = (root: LogicNode, id: string): LogicNode[] => {
+    if (!root) return [];
+    if (root.id === id) return [root];
+    for (const child of root.children || []) {
+        const path = findPath(child, id);
+        if (path.length) return [root, ...path];
+    }
+    return [];
+};
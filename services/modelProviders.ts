@@ -0,0 +1,242 @@
+import { GoogleGenAI } from "@google/genai";
+import { DEMO_FIXTURES } from "./fixtures";
+import { AnalysisError } from "./analysisErrors";
+
+// Một ảnh đính kèm gửi cho model (base64 không có tiền tố data:)
+export interface ModelImage {
+    mimeType: string;
+    data: string;
+}
+
+export interface ModelRequest {
+    prompt: string;
+    images: ModelImage[];
+    signal?: AbortSignal; // Hủy yêu cầu (người dùng bấm Hủy hoặc hết thời gian chờ)
+}
+
+// Mọi nhà cung cấp model đều trả về chuỗi JSON thô; phần parse/sanitize dùng chung ở geminiService.
+export interface ModelProvider {
+    id: string;
+    label: string;
+    models: string[]; // Thứ tự ưu tiên (fallback chain)
+    generate: (request: ModelRequest, modelId: string) => Promise<string>;
+    // Tùy chọn: stream câu trả lời. onText nhận toàn bộ văn bản đã nhận được tới lúc đó.
+    generateStream?: (request: ModelRequest, modelId: string, onText: (soFar: string) => void) => Promise<string>;
+}
+
+// Priority list of Gemini models to use.
+export const GEMINI_FALLBACK_MODELS = [
+    'gemini-3-pro-preview',      // Primary: Complex Text Tasks (Math)
+    'gemini-2.5-flash',          // Secondary: Fast & Efficient
+    'gemini-flash-lite-latest'   // Tertiary: Very fast
+];
+
+export const createGeminiProvider = (apiKey: string, models: string[] = GEMINI_FALLBACK_MODELS): ModelProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    const buildParams = (request: ModelRequest, modelId: string) => {
+        const parts: any[] = [{ text: request.prompt }];
+        request.images.forEach(img => {
+            parts.push({ inlineData: { mimeType: img.mimeType, data: img.data } });
+        });
+        return {
+            model: modelId,
+            contents: { parts },
+            config: {
+                responseMimeType: "application/json",
+                abortSignal: request.signal,
+            }
+        };
+    };
+
+    // Câu trả lời rỗng thường là do bộ lọc an toàn chặn
+    const emptyResponseError = (response: any): Error => {
+        const blockReason = response?.promptFeedback?.blockReason;
+        const finishReason = response?.candidates?.[0]?.finishReason;
+        if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+            return new AnalysisError('safety', `Gemini blocked the response (${blockReason || finishReason})`);
+        }
+        return new Error("No response from Gemini");
+    };
+
+    return {
+        id: 'gemini',
+        label: 'Google Gemini',
+        models,
+        generate: async (request, modelId) => {
+            const response = await ai.models.generateContent(buildParams(request, modelId));
+
+            const text = response.text;
+            if (!text) throw emptyResponseError(response);
+            return text;
+        },
+        generateStream: async (request, modelId, onText) => {
+            const stream = await ai.models.generateContentStream(buildParams(request, modelId));
+
+            let text = '';
+            let lastChunk: any = null;
+            for await (const chunk of stream) {
+                lastChunk = chunk;
+                if (!chunk.text) continue;
+                text += chunk.text;
+                onText(text);
+            }
+            if (!text) throw emptyResponseError(lastChunk);
+            return text;
+        }
+    };
+};
+
+export interface OpenAICompatibleOptions {
+    baseUrl: string;  // e.g. http://localhost:8080/v1 (llama.cpp) hoặc http://localhost:11434/v1 (Ollama)
+    model: string;
+    apiKey?: string;
+}
+
+export const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey }: OpenAICompatibleOptions): ModelProvider => {
+    const endpoint = baseUrl.replace(/\/+$/, '') + '/chat/completions';
+
+    const post = async (request: ModelRequest, modelId: string, stream: boolean): Promise<Response> => {
+        const content: any[] = [{ type: 'text', text: request.prompt }];
+        request.images.forEach(img => {
+            content.push({ type: 'image_url', image_url: { url: `data:${img.mimeType};base64,${img.data}` } });
+        });
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+        const res = await fetch(endpoint, {
+            method: 'POST',
+            signal: request.signal,
+            headers,
+            body: JSON.stringify({
+                model: modelId,
+                messages: [{ role: 'user', content }],
+                response_format: { type: 'json_object' },
+                stream
+            })
+        });
+
+        if (!res.ok) {
+            const detail = await res.text().catch(() => '');
+            throw new Error(`HTTP ${res.status} từ ${endpoint}: ${detail.slice(0, 200)}`);
+        }
+        return res;
+    };
+
+    return {
+        id: 'openai-compatible',
+        label: `Local (${model})`,
+        models: [model],
+        generate: async (request, modelId) => {
+            const res = await post(request, modelId, false);
+            const body = await res.json();
+            const text = body?.choices?.[0]?.message?.content;
+            if (!text) throw new Error(`No response from ${modelId}`);
+            return text;
+        },
+        generateStream: async (request, modelId, onText) => {
+            const res = await post(request, modelId, true);
+            if (!res.body) throw new Error(`No response from ${modelId}`);
+
+            // Server-Sent Events: mỗi dòng "data: {...}" chứa một delta
+            const reader = res.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            let text = '';
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+                for (const line of lines) {
+                    const data = line.replace(/^data:\s*/, '').trim();
+                    if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+                    let chunk: any;
+                    try {
+                        chunk = JSON.parse(data);
+                    } catch (e) {
+                        continue; // Một số proxy gửi dòng data: không phải JSON, bỏ qua thay vì hủy cả câu trả lời
+                    }
+                    const delta = chunk?.choices?.[0]?.delta?.content;
+                    if (delta) {
+                        text += delta;
+                        onText(text);
+                    }
+                }
+            }
+
+            if (!text) throw new Error(`No response from ${modelId}`);
+            return text;
+        }
+    };
+};
+
+export interface ProviderFixture {
+    match?: string;   // Chuỗi con cần có trong prompt; bỏ trống = dùng cho mọi đề
+    response: string; // Chuỗi JSON thô như model trả về
+}
+
+// Phát lại các câu trả lời đã ghi sẵn, không gọi mạng. Dùng để phát triển/kiểm thử giao diện offline.
+export const createFixtureProvider = (fixtures: ProviderFixture[]): ModelProvider => {
+    const pick = (request: ModelRequest): string => {
+        const hit = fixtures.find(f => f.match && request.prompt.includes(f.match))
+            || fixtures.find(f => !f.match);
+        if (!hit) throw new Error("Không có dữ liệu mẫu phù hợp với đề bài này.");
+        return hit.response;
+    };
+
+    return {
+        id: 'fixture',
+        label: 'Dữ liệu mẫu (offline)',
+        models: ['fixture'],
+        generate: async (request) => pick(request),
+        // Giả lập stream bằng cách trả từng đoạn, để thử hiển thị dần khi offline
+        generateStream: async (request, _modelId, onText) => {
+            const response = pick(request);
+            const chunkSize = 120;
+            for (let end = chunkSize; end < response.length + chunkSize; end += chunkSize) {
+                await new Promise(resolve => setTimeout(resolve, 40));
+                request.signal?.throwIfAborted();
+                onText(response.slice(0, end));
+            }
+            return response;
+        }
+    };
+};
+
+// --- Cấu hình provider từ giao diện ---
+export type ProviderKind = 'gemini' | 'local' | 'fixture';
+
+export interface ProviderSettings {
+    kind: ProviderKind;
+    apiKey?: string;        // Gemini key hoặc bearer token cho endpoint local
+    localBaseUrl?: string;
+    localModel?: string;
+}
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+export const resolveProvider = (settings: ProviderSettings): ModelProvider => {
+    switch (settings.kind) {
+        case 'local':
+            return createOpenAICompatibleProvider({
+                baseUrl: settings.localBaseUrl || DEFAULT_LOCAL_BASE_URL,
+                model: settings.localModel || 'llama3.2-vision',
+                apiKey: settings.apiKey
+            });
+        case 'fixture':
+            return createFixtureProvider(DEMO_FIXTURES);
+        default: {
+            // Ưu tiên dùng Key người dùng nhập, nếu không có thì dùng Key hệ thống (process.env)
+            const apiKey = settings.apiKey || process.env.API_KEY;
+            if (!apiKey) {
+                throw new AnalysisError('auth', "Vui lòng nhập Gemini API Key để sử dụng ứng dụng.");
+            }
+            return createGeminiProvider(apiKey);
+        }
+    }
+};
@@ -0,0 +1,443 @@
+import { GeometryResponse, GeometryFigure, LogicNode } from '../types';
+
+// Kiểm tra số học cục bộ: dựng một hình cụ thể từ hình vẽ + giả thiết,
+// rồi đo để xem các mệnh đề (đoạn bằng nhau, góc bằng nhau, song song, vuông góc,
+// thẳng hàng, cùng thuộc đường tròn...) có thật sự đúng trên hình đó không.
+// Không cần mạng, không gọi model: là tín hiệu tin cậy cho giáo viên.
+
+export type NumericCheckStatus = 'pass' | 'fail' | 'unchecked';
+
+export interface NumericCheck {
+    status: NumericCheckStatus;
+    detail: string; // Giá trị đo được hoặc lý do không kiểm tra được
+}
+
+interface Vec { x: number; y: number; }
+
+export interface NumericInstance {
+    points: Record<string, Vec>;
+    segments: [string, string][];
+    scale: number; // Kích thước đặc trưng của hình, dùng cho sai số tương đối
+}
+
+export interface NumericReport {
+    instance: NumericInstance | null;
+    failedHypotheses: string[]; // Giả thiết không đúng trên hình -> không tin kết quả đo
+    checks: Record<string, NumericCheck>; // Theo LogicNode.id
+}
+
+const LENGTH_TOLERANCE = 0.015; // 1.5% (tương đối)
+const ANGLE_TOLERANCE = 1;      // độ
+
+// Kết quả đo một quan hệ; null = không đo được (thiếu điểm, không đủ dữ kiện)
+interface Outcome { ok: boolean; detail: string; }
+type Relation = (inst: NumericInstance) => Outcome | null;
+
+// --- Hình học vector ---
+const sub = (a: Vec, b: Vec): Vec => ({ x: a.x - b.x, y: a.y - b.y });
+const add = (a: Vec, b: Vec): Vec => ({ x: a.x + b.x, y: a.y + b.y });
+const mul = (a: Vec, k: number): Vec => ({ x: a.x * k, y: a.y * k });
+const dot = (a: Vec, b: Vec) => a.x * b.x + a.y * b.y;
+const cross = (a: Vec, b: Vec) => a.x * b.y - a.y * b.x;
+const len = (a: Vec) => Math.hypot(a.x, a.y);
+const mid = (a: Vec, b: Vec): Vec => mul(add(a, b), 0.5);
+const unit = (a: Vec): Vec | null => {
+    const l = len(a);
+    return l > 1e-9 ? mul(a, 1 / l) : null;
+};
+const angleDeg = (from: Vec, vertex: Vec, to: Vec): number | null => {
+    const u = unit(sub(from, vertex));
+    const v = unit(sub(to, vertex));
+    if (!u || !v) return null;
+    return Math.acos(Math.max(-1, Math.min(1, dot(u, v)))) * 180 / Math.PI;
+};
+const fmt = (n: number) => (Math.round(n * 100) / 100).toString();
+
+const closeLengths = (a: number, b: number) => Math.abs(a - b) <= LENGTH_TOLERANCE * Math.max(Math.abs(a), Math.abs(b), 1e-9);
+
+// --- Tiền xử lý văn bản ---
+const P = "[A-Z]\\d*'*";
+const POINT = new RegExp(P, 'g');
+
+const normalize = (text: string): string =>
+    (text || '')
+        .replace(/_\{?(\d+)\}?/g, '$1')
+        .replace(/\\left|\\right|\\,|\\;|\\!|~/g, ' ')
+        .replace(/\\widehat\s*\{([^}]*)\}/g, '∠$1')
+        .replace(/\\(?:hat|angle)\s*\{?\s*([A-Z][^}\s]*)\}?/g, '∠$1')
+        .replace(/\\(?:triangle|Delta)\s*/g, '△')
+        .replace(/Δ\s*/g, '△')
+        .replace(/\^\s*\{?\s*\\circ\s*\}?|\^\s*\{?\s*o\s*\}?(?![a-z])/g, '°');
+
+const pointsOf = (word: string): string[] => word.match(POINT) || [];
+
+// --- Biểu thức tuyến tính: tổng các (hệ số × đại lượng) ---
+type QuantityKind = 'length' | 'angle' | 'ratio' | 'scalar';
+
+interface Term {
+    coef: number;
+    kind: QuantityKind;
+    label: string;
+    value: (inst: NumericInstance) => number | null;
+}
+
+interface Side {
+    kind: QuantityKind;
+    label: string;
+    constant: boolean; // Chỉ gồm hằng số (90°, 1/2): không cần in giá trị đo
+    value: (inst: NumericInstance) => number | null;
+}
+
+const lengthOf = (a: string, b: string) => (inst: NumericInstance) => {
+    const pa = inst.points[a], pb = inst.points[b];
+    return pa && pb ? len(sub(pa, pb)) : null;
+};
+
+// Góc một đỉnh (\hat{B}): dùng được khi đỉnh có đúng hai tia trên hình vẽ
+const resolveVertexAngle = (vertex: string, inst: NumericInstance): [string, string] | null => {
+    const o = inst.points[vertex];
+    if (!o) return null;
+    const rays: { name: string; dir: Vec }[] = [];
+    inst.segments.forEach(([a, b]) => {
+        const other = a === vertex ? b : b === vertex ? a : null;
+        const p = other ? inst.points[other] : null;
+        const dir = p ? unit(sub(p, o)) : null;
+        if (!other || !dir) return;
+        if (!rays.some(r => dot(r.dir, dir) > Math.cos(ANGLE_TOLERANCE * Math.PI / 180))) rays.push({ name: other, dir });
+    });
+    return rays.length === 2 ? [rays[0].name, rays[1].name] : null;
+};
+
+const angleOf = (names: string[]) => (inst: NumericInstance) => {
+    let ends: [string, string] | null = names.length === 3 ? [names[0], names[2]] : null;
+    const vertex = names.length === 3 ? names[1] : names[0];
+    if (names.length === 1) ends = resolveVertexAngle(vertex, inst);
+    if (!ends) return null;
+    const a = inst.points[ends[0]], o = inst.points[vertex], b = inst.points[ends[1]];
+    return a && o && b ? angleDeg(a, o, b) : null;
+};
+
+const TERM = new RegExp(
+    '^\\s*(?:(\\\\frac\\s*\\{\\s*(\\d+(?:[.,]\\d+)?)\\s*\\}\\s*\\{\\s*(\\d+(?:[.,]\\d+)?)\\s*\\})|(\\d+(?:[.,]\\d+)?)(°)?)?' +
+    `\\s*(?:∠\\s*((?:${P}){3}|${P})|\\\\frac\\s*\\{\\s*((?:${P}){2})\\s*\\}\\s*\\{\\s*((?:${P}){2})\\s*\\}|((?:${P}){2}))?`
+);
+
+const toNumber = (s: string) => parseFloat(s.replace(',', '.'));
+
+const parseSide = (expr: string): Side | null => {
+    const terms: Term[] = [];
+    let rest = expr.trim();
+    let sign = 1;
+    if (!rest) return null;
+
+    while (rest) {
+        const m = rest.match(TERM);
+        if (!m || !m[0].trim()) return null;
+        const [whole, frac, fracNum, fracDen, num, degree, angle, ratioTop, ratioBottom, segment] = m;
+        let coef = sign;
+        if (frac) coef *= toNumber(fracNum) / toNumber(fracDen);
+        if (num) coef *= toNumber(num);
+
+        if (angle) {
+            const names = pointsOf(angle);
+            terms.push({ coef, kind: 'angle', label: `∠${angle}`, value: angleOf(names) });
+        } else if (ratioTop) {
+            const [a, b] = pointsOf(ratioTop), [c, d] = pointsOf(ratioBottom);
+            const top = lengthOf(a, b), bottom = lengthOf(c, d);
+            terms.push({
+                coef, kind: 'ratio', label: `${ratioTop}/${ratioBottom}`,
+                value: inst => { const t = top(inst), u = bottom(inst); return t !== null && u ? t / u : null; }
+            });
+        } else if (segment) {
+            const [a, b] = pointsOf(segment);
+            terms.push({ coef, kind: 'length', label: segment, value: lengthOf(a, b) });
+        } else if (num || frac) {
+            // Số đứng riêng: góc (có °) hoặc hằng số
+            terms.push({ coef, kind: degree ? 'angle' : 'scalar', label: `${num || fmt(coef)}${degree || ''}`, value: () => 1 });
+        } else {
+            return null;
+        }
+
+        rest = rest.slice(whole.length).trim();
+        if (!rest) break;
+        if (rest[0] === '+') sign = 1;
+        else if (rest[0] === '-') sign = -1;
+        else return null;
+        rest = rest.slice(1);
+    }
+
+    const kinds = Array.from(new Set(terms.filter(t => t.kind !== 'scalar').map(t => t.kind)));
+    if (kinds.length > 1) return null;
+    // Hằng số cộng với độ dài không đo được (không biết tỉ lệ của hình)
+    if (kinds[0] === 'length' && terms.some(t => t.kind === 'scalar')) return null;
+
+    return {
+        kind: kinds[0] || 'scalar',
+        label: expr.trim().replace(/\\frac\s*\{([^}]*)\}\s*\{([^}]*)\}/g, '$1/$2'),
+        constant: terms.every(t => t.kind === 'scalar' || !/[A-Z]/.test(t.label)),
+        value: inst => {
+            let total = 0;
+            for (const t of terms) {
+                const v = t.value(inst);
+                if (v === null) return null;
+                total += t.coef * v;
+            }
+            return total;
+        }
+    };
+};
+
+// --- Các quan hệ ---
+const equalChain = (sides: Side[]): Relation | null => {
+    const kinds = new Set(sides.map(s => s.kind));
+    const isRatio = kinds.has('ratio');
+    if (kinds.has('length') && kinds.has('scalar')) return null; // "AB = 5 cm": không biết tỉ lệ
+    if (kinds.size > 1 && !(kinds.size === 2 && isRatio && kinds.has('scalar'))) return null;
+    if (kinds.size === 1 && kinds.has('scalar')) return null;
+    const isAngle = kinds.has('angle');
+
+    return inst => {
+        const values = sides.map(s => s.value(inst));
+        if (values.some(v => v === null)) return null;
+        const nums = values as number[];
+        const ok = nums.every(v => isAngle ? Math.abs(v - nums[0]) <= ANGLE_TOLERANCE : closeLengths(v, nums[0]));
+        const detail = sides
+            .map((s, i) => s.constant ? '' : `${s.label} ≈ ${fmt(nums[i])}${isAngle ? '°' : ''}`)
+            .filter(Boolean)
+            .join('; ');
+        return { ok, detail };
+    };
+};
+
+const congruent = (triangles: string[][], similar: boolean): Relation => inst => {
+    const [t1, t2] = triangles;
+    const pairs = [[0, 1], [1, 2], [0, 2]];
+    const ratios: number[] = [];
+    const details: string[] = [];
+    for (const [i, j] of pairs) {
+        const a = lengthOf(t1[i], t1[j])(inst), b = lengthOf(t2[i], t2[j])(inst);
+        if (a === null || b === null || !b) return null;
+        ratios.push(a / b);
+        details.push(`${t1[i]}${t1[j]} ≈ ${fmt(a)} / ${t2[i]}${t2[j]} ≈ ${fmt(b)}`);
+    }
+    const ok = similar
+        ? ratios.every(r => closeLengths(r, ratios[0]))
+        : ratios.every(r => closeLengths(r, 1));
+    return { ok, detail: details.join('; ') };
+};
+
+const lineRelation = (lines: string[][], perpendicular: boolean): Relation => inst => {
+    const dirs = lines.map(([a, b]) => inst.points[a] && inst.points[b] ? unit(sub(inst.points[b], inst.points[a])) : null);
+    if (dirs.some(d => !d)) return null;
+    const [first, ...others] = dirs as Vec[];
+    const sine = Math.sin(ANGLE_TOLERANCE * Math.PI / 180);
+    if (perpendicular) {
+        const between = Math.acos(Math.min(1, Math.abs(dot(first, others[0])))) * 180 / Math.PI;
+        return { ok: Math.abs(dot(first, others[0])) <= sine, detail: `Góc giữa ${lines[0].join('')} và ${lines[1].join('')} ≈ ${fmt(between)}°` };
+    }
+    const ok = others.every(d => Math.abs(cross(first, d)) <= sine);
+    return { ok, detail: ok ? 'Các đường thẳng cùng phương' : 'Các đường thẳng cắt nhau trên hình' };
+};
+
+const collinear = (names: string[]): Relation => inst => {
+    const pts = names.map(n => inst.points[n]);
+    if (pts.some(p => !p)) return null;
+    const [a, b] = pts;
+    const dir = unit(sub(b, a));
+    if (!dir) return null;
+    const worst = Math.max(...pts.slice(2).map(p => Math.abs(cross(dir, sub(p, a)))));
+    return { ok: worst <= LENGTH_TOLERANCE * inst.scale, detail: `Khoảng cách lớn nhất tới đường thẳng ${names[0]}${names[1]} ≈ ${fmt(worst)}` };
+};
+
+const concyclic = (names: string[]): Relation => inst => {
+    const pts = names.map(n => inst.points[n]);
+    if (pts.some(p => !p)) return null;
+    const [a, b, c] = pts;
+    // Tâm đường tròn ngoại tiếp ba điểm đầu
+    const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+    if (Math.abs(d) < 1e-9) return { ok: false, detail: `${names.slice(0, 3).join(', ')} thẳng hàng` };
+    const sq = (p: Vec) => p.x * p.x + p.y * p.y;
+    const center = {
+        x: (sq(a) * (b.y - c.y) + sq(b) * (c.y - a.y) + sq(c) * (a.y - b.y)) / d,
+        y: (sq(a) * (c.x - b.x) + sq(b) * (a.x - c.x) + sq(c) * (b.x - a.x)) / d
+    };
+    const r = len(sub(a, center));
+    const ok = pts.slice(3).every(p => closeLengths(len(sub(p, center)), r));
+    return { ok, detail: `Bán kính ≈ ${fmt(r)}; ${names.slice(3).map((n, i) => `${n} cách tâm ≈ ${fmt(len(sub(pts[3 + i], center)))}`).join('; ')}` };
+};
+
+const midpointOf = (m: string, a: string, b: string): Relation => inst => {
+    const pm = inst.points[m], pa = inst.points[a], pb = inst.points[b];
+    if (!pm || !pa || !pb) return null;
+    const off = len(sub(pm, mid(pa, pb)));
+    return { ok: off <= LENGTH_TOLERANCE * inst.scale, detail: `${m}${a} ≈ ${fmt(len(sub(pm, pa)))}; ${m}${b} ≈ ${fmt(len(sub(pm, pb)))}` };
+};
+
+const triangleKind = (names: string[], kind: string, at?: string): Relation[] => {
+    const vertex = at && names.includes(at) ? at : names[0];
+    const [y, z] = names.filter(n => n !== vertex);
+    const sides = (pairs: string[][]): Side[] => pairs.map(([a, b]) => ({ kind: 'length', label: a + b, constant: false, value: lengthOf(a, b) }));
+    const relations: Relation[] = [];
+    if (kind === 'đều') {
+        relations.push(equalChain(sides([[names[0], names[1]], [names[1], names[2]], [names[0], names[2]]]))!);
+    }
+    if (kind === 'cân' || kind === 'vuông cân') {
+        relations.push(equalChain(sides([[vertex, y], [vertex, z]]))!);
+    }
+    if (kind === 'vuông' || kind === 'vuông cân') {
+        relations.push(equalChain([
+            { kind: 'angle', label: `∠${y}${vertex}${z}`, constant: false, value: angleOf([y, vertex, z]) },
+            { kind: 'angle', label: '90°', constant: true, value: () => 90 }
+        ])!);
+    }
+    return relations;
+};
+
+// --- Phân tích một mệnh đề thành các quan hệ đo được ---
+const TRIANGLE_KIND = new RegExp(`(?:[Tt]am giác|△)\\s*((?:${P}){3})\\s*(vuông cân|cân|vuông|đều)(?:\\s*tại\\s*(${P}))?`, 'g');
+const MIDPOINT = new RegExp(`(${P})\\s*là trung điểm\\s*(?:của\\s*)?(?:đoạn\\s*(?:thẳng\\s*)?)?((?:${P}){2})`, 'g');
+const COLLINEAR = new RegExp(`((?:${P})(?:\\s*,\\s*(?:${P})){2,})\\s*thẳng hàng`, 'g');
+const CONCYCLIC = new RegExp(`((?:${P})(?:\\s*,\\s*(?:${P})){3,})\\s*(?:cùng\\s*)?(?:thuộc|nằm trên)\\s*(?:một\\s*)?đường tròn`, 'g');
+const INSCRIBED = new RegExp(`[Tt]ứ giác\\s*((?:${P}){4})\\s*nội tiếp`, 'g');
+const BELONGS = new RegExp(`^\\s*(${P})\\s*(?:\\\\in|∈)\\s*((?:${P}){2})\\s*$`);
+const LINE = new RegExp(`^\\s*((?:${P}){2})\\s*$`);
+const TRIANGLE = new RegExp(`^\\s*△\\s*((?:${P}){3})\\s*$`);
+const UNSUPPORTED = /\\ne(?:q)?\b|\\le(?:q)?\b|\\ge(?:q)?\b|[<>≠≤≥]|\\Rightarrow|\\Leftrightarrow|\\cap|\\cup|\\sqrt|\\cdot|\\times/;
+
+const parseMath = (math: string): Relation[] => {
+    if (UNSUPPORTED.test(math)) return [];
+
+    const belongs = math.match(BELONGS);
+    if (belongs) return [collinear([belongs[1], ...pointsOf(belongs[2])])];
+
+    for (const [pattern, perpendicular] of [[/\\parallel|\/\/|∥|\\\|/, false], [/\\perp|⊥/, true]] as [RegExp, boolean][]) {
+        if (pattern.test(math)) {
+            const lines = math.split(pattern).map(s => s.match(LINE));
+            if (lines.some(l => !l) || (perpendicular && lines.length !== 2)) return [];
+            return [lineRelation(lines.map(l => pointsOf(l![1])), perpendicular)];
+        }
+    }
+
+    const similarSplit = math.split(/\\(?:back|thick)?sim|∽/);
+    if (similarSplit.length === 2) {
+        const tris = similarSplit.map(s => s.match(TRIANGLE));
+        return tris.every(t => t) ? [congruent(tris.map(t => pointsOf(t![1])), true)] : [];
+    }
+
+    if (!math.includes('=')) return [];
+    const parts = math.split('=');
+    const tris = parts.map(s => s.match(TRIANGLE));
+    if (tris.every(t => t)) {
+        const triangles = tris.map(t => pointsOf(t![1]));
+        return triangles.slice(1).map(t => congruent([triangles[0], t], false));
+    }
+
+    const sides = parts.map(parseSide);
+    if (sides.some(s => !s)) return [];
+    const relation = equalChain(sides as Side[]);
+    return relation ? [relation] : [];
+};
+
+export const parseRelations = (statement: string): Relation[] => {
+    const text = normalize(statement);
+    const relations: Relation[] = [];
+
+    // Phần công thức: ưu tiên các đoạn $...$, nếu không có thì thử cả câu
+    const mathParts = text.match(/\$[^$]+\$/g);
+    (mathParts ? mathParts.map(m => m.slice(1, -1)) : [text]).forEach(m => relations.push(...parseMath(m)));
+
+    // Phần lời (bỏ $ để bắt được "$\triangle ABC$ cân tại $A$")
+    const plain = text.replace(/\$/g, '');
+    for (const m of plain.matchAll(TRIANGLE_KIND)) relations.push(...triangleKind(pointsOf(m[1]), m[2], m[3]));
+    for (const m of plain.matchAll(MIDPOINT)) relations.push(midpointOf(m[1], ...pointsOf(m[2]) as [string, string]));
+    for (const m of plain.matchAll(COLLINEAR)) relations.push(collinear(pointsOf(m[1])));
+    for (const m of plain.matchAll(CONCYCLIC)) relations.push(concyclic(pointsOf(m[1])));
+    for (const m of plain.matchAll(INSCRIBED)) relations.push(concyclic(pointsOf(m[1])));
+
+    return relations;
+};
+
+export const checkStatement = (statement: string, inst: NumericInstance): NumericCheck => {
+    const outcomes = parseRelations(statement).map(r => r(inst)).filter((o): o is Outcome => !!o);
+    if (outcomes.length === 0) {
+        return { status: 'unchecked', detail: "Không có quan hệ đo được trên hình" };
+    }
+    const failed = outcomes.filter(o => !o.ok);
+    return failed.length > 0
+        ? { status: 'fail', detail: failed.map(o => o.detail).join(' | ') }
+        : { status: 'pass', detail: outcomes.map(o => o.detail).join(' | ') };
+};
+
+// --- Dựng hình cụ thể: lấy tọa độ từ hình vẽ rồi "nắn" lại theo các giả thiết dựng hình ---
+const applyConstructions = (points: Record<string, Vec>, hypothesis: string) => {
+    const plain = normalize(hypothesis).replace(/\$/g, '');
+
+    for (const m of plain.matchAll(MIDPOINT)) {
+        const [a, b] = pointsOf(m[2]);
+        if (points[m[1]] && points[a] && points[b]) points[m[1]] = mid(points[a], points[b]);
+    }
+
+    for (const m of plain.matchAll(TRIANGLE_KIND)) {
+        const names = pointsOf(m[1]);
+        const kind = m[2];
+        const vertex = m[3] && names.includes(m[3]) ? m[3] : names[0];
+        const [y, z] = names.filter(n => n !== vertex);
+        const pv = points[vertex], py = points[y], pz = points[z];
+        if (!pv || !py || !pz) continue;
+
+        const base = mid(py, pz);
+        const along = unit(sub(pz, py));
+        if (!along) continue;
+        let normal = { x: -along.y, y: along.x };
+        if (dot(normal, sub(pv, base)) < 0) normal = mul(normal, -1); // Giữ đỉnh ở cùng phía
+        const half = len(sub(pz, py)) / 2;
+
+        if (kind === 'đều') {
+            points[vertex] = add(base, mul(normal, half * Math.sqrt(3)));
+        } else if (kind === 'vuông cân') {
+            points[vertex] = add(base, mul(normal, half));
+        } else if (kind === 'cân') {
+            points[vertex] = add(base, mul(normal, Math.abs(dot(sub(pv, base), normal))));
+        } else if (kind === 'vuông') {
+            const dir = unit(sub(pv, base));
+            if (dir) points[vertex] = add(base, mul(dir, half));
+        }
+    }
+};
+
+export const buildNumericInstance = (figure: GeometryFigure, hypotheses: string[]): NumericInstance => {
+    const points: Record<string, Vec> = {};
+    figure.points.forEach(p => { points[p.name] = { x: p.x, y: p.y }; });
+
+    // Hai lượt để các điểm phụ thuộc nhau (trung điểm của cạnh vừa được nắn) ổn định
+    for (let pass = 0; pass < 2; pass++) hypotheses.forEach(h => applyConstructions(points, h));
+
+    const xs = Object.values(points).map(p => p.x), ys = Object.values(points).map(p => p.y);
+    const scale = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) || 1;
+
+    return { points, segments: figure.segments.map(s => [s.from, s.to] as [string, string]), scale };
+};
+
+export const checkTreeNumerically = (data: GeometryResponse, root: LogicNode): NumericReport => {
+    const report: NumericReport = { instance: null, failedHypotheses: [], checks: {} };
+    const visit = (node: LogicNode, fn: (n: LogicNode) => void) => {
+        fn(node);
+        node.children?.forEach(c => visit(c, fn));
+    };
+
+    if (!data.figure) {
+        visit(root, n => { report.checks[n.id] = { status: 'unchecked', detail: "Chưa có hình vẽ để đo" }; });
+        return report;
+    }
+
+    const inst = buildNumericInstance(data.figure, data.hypothesis || []);
+    report.instance = inst;
+    report.failedHypotheses = (data.hypothesis || []).filter(h => checkStatement(h, inst).status === 'fail');
+
+    visit(root, n => {
+        report.checks[n.id] = report.failedHypotheses.length > 0
+            ? { status: 'unchecked', detail: "Hình vẽ không khớp giả thiết nên không đo được" }
+            : checkStatement(n.statement, inst);
+    });
+    return report;
+};
@@ -0,0 +1,148 @@
+// Parser JSON chịu được dữ liệu bị cắt ngang (khi model đang stream).
+// - Object/mảng chưa đóng vẫn được trả về, gắn cờ INCOMPLETE.
+// - Chuỗi, số, literal chưa nhận đủ bị bỏ qua (coi như chưa có trường đó).
+// - Dấu "\" không hợp lệ trong chuỗi (LaTeX như \triangle) được giữ nguyên thay vì báo lỗi.
+
+export const INCOMPLETE = Symbol('incomplete');
+
+export const isIncomplete = (value: any): boolean =>
+    !!value && typeof value === 'object' && value[INCOMPLETE] === true;
+
+const MISSING = Symbol('missing');
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+    '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t'
+};
+
+export const parsePartialJson = (input: string): any => {
+    const start = input.indexOf('{');
+    if (start === -1) return undefined;
+
+    const text = input;
+    let i = start;
+    const n = text.length;
+
+    const markIncomplete = <T extends object>(container: T): T => {
+        Object.defineProperty(container, INCOMPLETE, { value: true });
+        return container;
+    };
+
+    const skipWhitespace = () => {
+        while (i < n && /\s/.test(text[i])) i++;
+    };
+
+    const parseString = (): string | typeof MISSING => {
+        i++; // opening quote
+        let out = '';
+        while (i < n) {
+            const ch = text[i];
+            if (ch === '"') {
+                i++;
+                return out;
+            }
+            if (ch === '\\') {
+                if (i + 1 >= n) { i = n; return MISSING; }
+                const next = text[i + 1];
+                if (next === 'u') {
+                    if (i + 6 > n) { i = n; return MISSING; }
+                    const hex = text.substr(i + 2, 4);
+                    if (/^[0-9a-fA-F]{4}$/.test(hex)) {
+                        out += String.fromCharCode(parseInt(hex, 16));
+                        i += 6;
+                        continue;
+                    }
+                }
+                if (SIMPLE_ESCAPES[next] !== undefined) {
+                    out += SIMPLE_ESCAPES[next];
+                } else {
+                    out += '\\' + next;
+                }
+                i += 2;
+                continue;
+            }
+            out += ch;
+            i++;
+        }
+        return MISSING;
+    };
+
+    const parseNumber = (): number | typeof MISSING => {
+        const from = i;
+        while (i < n && /[-+0-9.eE]/.test(text[i])) i++;
+        if (i >= n) return MISSING; // Có thể còn chữ số phía sau
+        const value = Number(text.slice(from, i));
+        if (isNaN(value)) throw new SyntaxError(`Số không hợp lệ tại vị trí ${from}`);
+        return value;
+    };
+
+    const parseLiteral = (): boolean | null | typeof MISSING => {
+        const literals: [string, boolean | null][] = [['true', true], ['false', false], ['null', null]];
+        for (const [word, value] of literals) {
+            const chunk = text.slice(i, i + word.length);
+            if (chunk === word) {
+                i += word.length;
+                return value;
+            }
+            if (word.startsWith(chunk) && i + chunk.length >= n) {
+                i = n;
+                return MISSING;
+            }
+        }
+        throw new SyntaxError(`Ký tự không mong đợi "${text[i]}" tại vị trí ${i}`);
+    };
+
+    const parseArray = (): any[] => {
+        i++; // [
+        const arr: any[] = [];
+        while (true) {
+            skipWhitespace();
+            if (i >= n) return markIncomplete(arr);
+            if (text[i] === ']') { i++; return arr; }
+            if (text[i] === ',') { i++; continue; }
+            const value = parseValue();
+            if (value === MISSING) return markIncomplete(arr);
+            arr.push(value);
+            if (isIncomplete(value)) return markIncomplete(arr);
+        }
+    };
+
+    const parseObject = (): Record<string, any> => {
+        i++; // {
+        const obj: Record<string, any> = {};
+        while (true) {
+            skipWhitespace();
+            if (i >= n) return markIncomplete(obj);
+            if (text[i] === '}') { i++; return obj; }
+            if (text[i] === ',') { i++; continue; }
+            if (text[i] !== '"') throw new SyntaxError(`Cần tên trường tại vị trí ${i}`);
+
+            const key = parseString();
+            if (key === MISSING) return markIncomplete(obj);
+            skipWhitespace();
+            if (i >= n) return markIncomplete(obj);
+            if (text[i] !== ':') throw new SyntaxError(`Cần dấu ":" tại vị trí ${i}`);
+            i++;
+            skipWhitespace();
+            if (i >= n) return markIncomplete(obj);
+
+            const value = parseValue();
+            if (value === MISSING) return markIncomplete(obj);
+            obj[key] = value;
+            if (isIncomplete(value)) return markIncomplete(obj);
+        }
+    };
+
+    const parseValue = (): any => {
+        skipWhitespace();
+        if (i >= n) return MISSING;
+        const ch = text[i];
+        if (ch === '{') return parseObject();
+        if (ch === '[') return parseArray();
+        if (ch === '"') return parseString();
+        if (ch === '-' || (ch >= '0' && ch <= '9')) return parseNumber();
+        return parseLiteral();
+    };
+
+    const result = parseValue();
+    return result === MISSING ? undefined : result;
+};
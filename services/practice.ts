@@ -0,0 +1,119 @@
+import { LogicNode, AnalysisType, GeometryResponse, GradeLevel } from '../types';
+import { sameFact } from './groundingChecker';
+import { THEOREM_CATALOG, findCatalogEntry, resolveNodeKnowledge } from './theoremCatalog';
+
+// Chế độ luyện tập "điền vào chỗ trống": che một số bước trên sơ đồ,
+// học sinh chọn hoặc tự nhập mục tiêu trung gian / định lý còn thiếu.
+
+export type PracticeBlankKind = 'statement' | 'method';
+
+export interface PracticeBlank {
+    nodeId: string;
+    kind: PracticeBlankKind;
+    answer: string;    // Đáp án gốc (statement hoặc method của node)
+    options: string[]; // Đáp án + các phương án nhiễu, đã xáo trộn
+    hintNodeId: string; // Node có thang gợi ý cho chỗ trống này (mệnh đề -> node cha)
+}
+
+export interface PracticeScore {
+    correct: number;   // Số chỗ trống làm đúng (không xem đáp án)
+    total: number;
+    attempts: number;  // Tổng số lần trả lời
+    hintsUsed: number; // Tổng số gợi ý đã mở cho các chỗ trống
+    points: number;    // Điểm sau khi trừ gợi ý
+}
+
+const MAX_BLANKS = 5;
+const OPTION_COUNT = 4;
+export const HINT_PENALTY = 0.25; // Mỗi gợi ý đã mở trừ 1/4 điểm của chỗ trống
+
+// Điểm của một chỗ trống làm đúng sau khi đã mở `hints` gợi ý
+export const blankPoints = (hints: number): number => Math.max(0, 1 - HINT_PENALTY * hints);
+
+export const formatPoints = (points: number): string =>
+    points.toLocaleString('vi-VN', { maximumFractionDigits: 2 });
+
+// Xáo trộn cố định theo seed để phương án không đổi chỗ mỗi lần render
+const seededShuffle = <T,>(items: T[], seed: string): T[] => {
+    let h = 0;
+    for (let i = 0; i < seed.length; i++) h = (Math.imul(h, 31) + seed.charCodeAt(i)) >>> 0;
+    const out = [...items];
+    for (let i = out.length - 1; i > 0; i--) {
+        h = (Math.imul(h, 1103515245) + 12345) >>> 0;
+        const j = h % (i + 1);
+        [out[i], out[j]] = [out[j], out[i]];
+    }
+    return out;
+};
+
+const collect = (root: LogicNode, parents: Map<string, string>): LogicNode[] => {
+    const out: LogicNode[] = [];
+    const visit = (n: LogicNode) => {
+        if (!n) return;
+        out.push(n);
+        n.children?.forEach(c => {
+            if (c) parents.set(c.id, n.id);
+            visit(c);
+        });
+    };
+    visit(root);
+    return out;
+};
+
+const pickOptions = (answer: string, pool: string[], seed: string, same: (a: string, b: string) => boolean): string[] => {
+    const distractors: string[] = [];
+    seededShuffle(pool, seed).forEach(p => {
+        if (distractors.length < OPTION_COUNT - 1 && p.trim() && !same(p, answer) && !distractors.some(d => same(d, p))) {
+            distractors.push(p);
+        }
+    });
+    return seededShuffle([answer, ...distractors], `${seed}:options`);
+};
+
+export const isSameMethod = (a: string, b: string): boolean => {
+    const ea = findCatalogEntry(a), eb = findCatalogEntry(b);
+    if (ea && eb) return ea.id === eb.id;
+    return sameFact(a, b);
+};
+
+// Chỗ trống: mục tiêu trung gian (NODE) -> điền mệnh đề; node có định lý trong danh mục -> điền định lý.
+// Cây không có NODE trung gian thì che các LEAF.
+export const buildPractice = (root: LogicNode, data: GeometryResponse): PracticeBlank[] => {
+    const parents = new Map<string, string>();
+    const nodes = collect(root, parents);
+    const intermediates = nodes.filter(n => n.type === AnalysisType.NODE && n.children?.length);
+    const statementTargets = intermediates.length > 0 ? intermediates : nodes.filter(n => n.type !== AnalysisType.ROOT);
+    const methodTargets = nodes.filter(n => n.method && resolveNodeKnowledge(n, data) && !statementTargets.includes(n));
+
+    const statementPool = [...nodes.map(n => n.statement), ...(data.hypothesis || [])];
+    const grade: GradeLevel = data.grade || 9;
+    const methodPool = [
+        ...nodes.map(n => n.method || ''),
+        ...THEOREM_CATALOG.filter(e => e.grade <= grade).map(e => e.name)
+    ];
+
+    const blanks: PracticeBlank[] = [
+        ...statementTargets.map(n => ({
+            nodeId: n.id,
+            kind: 'statement' as const,
+            answer: n.statement,
+            options: pickOptions(n.statement, statementPool, n.id, sameFact),
+            hintNodeId: parents.get(n.id) || n.id
+        })),
+        ...methodTargets.map(n => ({
+            nodeId: n.id,
+            kind: 'method' as const,
+            answer: n.method!,
+            options: pickOptions(n.method!, methodPool, n.id, isSameMethod),
+            hintNodeId: n.id
+        }))
+    ];
+    return blanks.slice(0, MAX_BLANKS);
+};
+
+// So đáp án: mệnh đề so theo dạng LaTeX chuẩn hóa (AB = BA, ∠ABC = ∠CBA...),
+// định lý so theo mục trong danh mục (khác cách gọi vẫn đúng)
+export const checkPracticeAnswer = (blank: PracticeBlank, answer: string): boolean => {
+    if (!answer.trim()) return false;
+    return blank.kind === 'statement' ? sameFact(answer, blank.answer) : isSameMethod(answer, blank.answer);
+};
@@ -0,0 +1,102 @@
+import { GeometryResponse, GradeLevel } from '../types';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+// Thư viện bài đã giải (IndexedDB): mở lại bài cũ không tốn lượt gọi AI.
+// Khác bộ nhớ đệm: không tự hết hạn, người dùng tự ghim / xóa.
+
+const DB_NAME = 'geosolver-library';
+const DB_VERSION = 1;
+const STORE = 'problems';
+
+export interface LibraryEntry {
+    id: string;
+    prompt: string;
+    thumbnail?: string;     // data URL ảnh thu nhỏ của ảnh đề bài đầu tiên
+    data: GeometryResponse;
+    refinements: string[];  // Các gợi ý chỉnh sửa đã gửi, theo thứ tự
+    grade?: GradeLevel;
+    createdAt: number;
+    updatedAt: number;
+    pinned: boolean;
+}
+
+const openLibraryDb = () => openDatabase(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'id' });
+    }
+});
+
+export const newLibraryId = () => 'lib_' + Date.now().toString(36) + Math.random().toString(36).substr(2, 4);
+
+// Bài ghim lên đầu, còn lại mới nhất trước
+export const sortLibrary = (entries: LibraryEntry[]): LibraryEntry[] =>
+    [...entries].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt);
+
+export const listLibrary = async (): Promise<LibraryEntry[]> => {
+    const db = await openLibraryDb();
+    try {
+        const tx = db.transaction(STORE, 'readonly');
+        return sortLibrary(await requestToPromise<LibraryEntry[]>(tx.objectStore(STORE).getAll()));
+    } finally {
+        db.close();
+    }
+};
+
+export const saveLibraryEntry = async (entry: LibraryEntry): Promise<void> => {
+    const db = await openLibraryDb();
+    try {
+        const tx = db.transaction(STORE, 'readwrite');
+        tx.objectStore(STORE).put(entry);
+        await transactionDone(tx);
+    } finally {
+        db.close();
+    }
+};
+
+export const deleteLibraryEntry = async (id: string): Promise<void> => {
+    const db = await openLibraryDb();
+    try {
+        const tx = db.transaction(STORE, 'readwrite');
+        tx.objectStore(STORE).delete(id);
+        await transactionDone(tx);
+    } finally {
+        db.close();
+    }
+};
+
+export const setLibraryPinned = async (id: string, pinned: boolean): Promise<void> => {
+    const db = await openLibraryDb();
+    try {
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        const entry = await requestToPromise<LibraryEntry | undefined>(store.get(id));
+        if (entry) store.put({ ...entry, pinned });
+        await transactionDone(tx);
+    } finally {
+        db.close();
+    }
+};
+
+// Tên hiển thị: dòng đầu của đề, đề chỉ có ảnh thì dùng kết luận
+export const libraryTitle = (entry: LibraryEntry): string =>
+    entry.prompt.trim().split('\n')[0] || entry.data.conclusion || "Bài toán từ ảnh";
+
+// Bỏ dấu + chữ thường để tìm "tam giac can" vẫn ra "tam giác cân"
+const fold = (text: string): string =>
+    (text || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[đĐ]/g, 'd').toLowerCase();
+
+// Tìm theo đề bài, GT/KL, tên hướng giải và các gợi ý chỉnh sửa; mọi từ khóa đều phải có mặt
+export const searchLibrary = (entries: LibraryEntry[], query: string): LibraryEntry[] => {
+    const words = fold(query).split(/\s+/).filter(Boolean);
+    if (words.length === 0) return entries;
+    return entries.filter(entry => {
+        const haystack = fold([
+            entry.prompt,
+            entry.data.conclusion,
+            ...(entry.data.hypothesis || []),
+            ...(entry.data.branches || []).map(b => b.name),
+            ...entry.refinements
+        ].join(' '));
+        return words.every(w => haystack.includes(w));
+    });
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { validateGeometryResponse } from './responseValidator';
+
+// Hai hướng giải dùng cùng bộ id (r1, n1, n2) như ví dụ trong prompt
+const branch = (id: string) => ({
+    id,
+    name: `Cách ${id}`,
+    status: 'success',
+    explanation: '',
+    forward_proof: '...',
+    proof_steps: [
+        { statement: '$AB = AC$', justification: 'GT', node_id: 'n2' },
+        { statement: '$AM \\perp BC$', justification: '', node_id: 'r1' }
+    ],
+    root: {
+        id: 'r1',
+        type: 'ROOT',
+        statement: '$AM \\perp BC$',
+        reason: '',
+        children: [
+            { id: 'n1', type: 'NODE', statement: '$\\widehat{AMB} = \\widehat{AMC}$', reason: '', children: [
+                { id: 'n2', type: 'LEAF', statement: '$AB = AC$', reason: 'GT' }
+            ] },
+            { id: 'n3', type: 'LEAF', statement: '$\\widehat{AMB} + \\widehat{AMC} = 180^\\circ$', reason: '', refs: ['n2'] }
+        ]
+    }
+});
+
+const twoBranches = () => ({
+    hypothesis: ['$\\triangle ABC$ cân tại $A$'],
+    conclusion: '$AM \\perp BC$',
+    knowledge_used: [],
+    branches: [branch('q1'), branch('q2')]
+});
+
+describe('validateGeometryResponse', () => {
+    it('keeps node ids that repeat across branches', () => {
+        const { value, issues } = validateGeometryResponse(twoBranches());
+        expect(issues).toEqual([]);
+        value.branches.forEach(b => {
+            expect(b.root.id).toBe('r1');
+            expect(b.root.children!.map(c => c.id)).toEqual(['n1', 'n3']);
+            expect(b.root.children![1].refs).toEqual(['n2']);
+        });
+    });
+
+    it('links proof steps to nodes in every branch', () => {
+        const { value } = validateGeometryResponse(twoBranches());
+        value.branches.forEach(b => {
+            expect(b.proof_steps!.map(s => s.node_id)).toEqual(['n2', 'r1']);
+        });
+    });
+
+    it('still renames duplicate ids inside one branch', () => {
+        const raw = twoBranches();
+        raw.branches[1].root.children[1].id = 'n1';
+        const { value, issues } = validateGeometryResponse(raw);
+        expect(value.branches[0].root.children![1].id).toBe('n3');
+        expect(value.branches[1].root.children![1].id).not.toBe('n1');
+        expect(issues.map(i => i.path)).toEqual(['branches[1].root.children[1].id']);
+    });
+});
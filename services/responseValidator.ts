@@ -0,0 +1,471 @@
+import { GeometryResponse, AnalysisBranch, AnalysisType, LogicNode, KnowledgeItem, ProofStep, ValidationIssue, GeometryFigure, FigurePoint, FigureSegment, FigureCircle, FigureAngle, FigureEqualMark } from '../types';
+import { AnalysisError } from './analysisErrors';
+import { normalizePointName } from './figureReferences';
+import { indexNodes } from './logicGraph';
+
+export interface ValidationResult {
+    value: GeometryResponse;
+    issues: ValidationIssue[];
+}
+
+const BRANCH_STATUSES: AnalysisBranch['status'][] = ['success', 'failure', 'partial'];
+const PENDING_PROOF = "Đang cập nhật lời giải...";
+
+const describe = (val: any): string => {
+    if (val === null) return 'null';
+    if (Array.isArray(val)) return 'mảng';
+    return typeof val;
+};
+
+// Kiểm tra và sửa JSON thô của model. Mọi thay đổi đều được ghi lại theo đường dẫn trường.
+export const validateGeometryResponse = (raw: any): ValidationResult => {
+    const issues: ValidationIssue[] = [];
+    const report = (path: string, message: string) => issues.push({ path, message });
+    // Id node chỉ cần duy nhất trong một hướng giải (refs, proof_steps[].node_id đều tính trong CÙNG hướng giải),
+    // nên được xóa trước khi đọc mỗi hướng giải: các hướng giải dùng lại r1 / n1... không bị đổi tên
+    const usedNodeIds = new Set<string>();
+
+    const toText = (val: any): string => {
+        if (val === null || val === undefined) return "";
+        if (typeof val === 'string') return val;
+        if (typeof val === 'number' || typeof val === 'boolean') return String(val);
+        if (Array.isArray(val)) return val.map(toText).join('\n');
+        if (typeof val === 'object') return typeof val.text === 'string' ? val.text : JSON.stringify(val);
+        return "";
+    };
+
+    // Trường chuỗi: chấp nhận string, chuyển đổi kiểu khác (có báo), dùng fallback khi thiếu
+    const readString = (val: any, path: string, fallback: string, required: boolean): string => {
+        if (typeof val === 'string') {
+            if (val.trim() || !required) return val;
+            report(path, `Chuỗi rỗng, thay bằng "${fallback}"`);
+            return fallback;
+        }
+        if (val === undefined || val === null) {
+            if (required) report(path, `Thiếu trường bắt buộc, thay bằng "${fallback}"`);
+            return fallback;
+        }
+        const converted = toText(val);
+        report(path, `Kiểu ${describe(val)} được chuyển thành chuỗi`);
+        return converted || fallback;
+    };
+
+    const readNode = (node: any, path: string, expected?: AnalysisType): LogicNode => {
+        if (!node || typeof node !== 'object' || Array.isArray(node)) {
+            report(path, `Node không hợp lệ (${describe(node)}), thay bằng node "Lỗi dữ liệu"`);
+            const id = uniqueId('err', path);
+            return { id, statement: "Lỗi dữ liệu", method: "", reason: "", type: expected || AnalysisType.NODE, children: [] };
+        }
+
+        let id = readString(node.id, `${path}.id`, '', false).trim();
+        if (!id) {
+            id = uniqueId('n', path);
+            report(`${path}.id`, `Thiếu id, đặt thành "${id}"`);
+        } else if (usedNodeIds.has(id)) {
+            const renamed = uniqueId(id, path);
+            report(`${path}.id`, `Trùng id "${id}", đổi thành "${renamed}"`);
+            id = renamed;
+        } else {
+            usedNodeIds.add(id);
+        }
+
+        const statement = readString(node.statement, `${path}.statement`, "...", true);
+        const method = readString(node.method, `${path}.method`, "", false);
+        const reason = readString(node.reason, `${path}.reason`, "", false);
+
+        let type: AnalysisType;
+        const rawType = typeof node.type === 'string' ? node.type.trim().toUpperCase() : '';
+        if (rawType === AnalysisType.ROOT || rawType === AnalysisType.NODE || rawType === AnalysisType.LEAF) {
+            type = rawType as AnalysisType;
+            if (node.type !== rawType) report(`${path}.type`, `"${node.type}" được chuẩn hóa thành "${rawType}"`);
+        } else {
+            type = AnalysisType.NODE;
+            report(`${path}.type`, `Giá trị "${toText(node.type)}" không hợp lệ, dùng "NODE"`);
+        }
+        if (expected && type !== expected) {
+            report(`${path}.type`, `Node gốc của hướng giải phải là "${expected}" (đang là "${type}")`);
+            type = expected;
+        } else if (!expected && type === AnalysisType.ROOT) {
+            report(`${path}.type`, `Chỉ node gốc mới là "ROOT", đổi thành "NODE"`);
+            type = AnalysisType.NODE;
+        }
+
+        let rawChildren = node.children;
+        if (rawChildren === undefined && node.nodes !== undefined) {
+            report(`${path}.children`, `Dùng trường "nodes" thay cho "children"`);
+            rawChildren = node.nodes;
+        }
+        let children: LogicNode[] = [];
+        const refs: string[] = [];
+        if (Array.isArray(rawChildren)) {
+            rawChildren.forEach((c: any, i: number) => {
+                // Phần tử dạng "id" hoặc { "ref": "id" } là tham chiếu tới node đã có
+                const ref = typeof c === 'string' ? c : c && typeof c === 'object' && typeof c.ref === 'string' && c.statement === undefined ? c.ref : null;
+                if (ref !== null) {
+                    report(`${path}.children[${i}]`, `Tham chiếu "${ref}" được chuyển sang "refs"`);
+                    refs.push(ref.trim());
+                } else {
+                    children.push(readNode(c, `${path}.children[${i}]`));
+                }
+            });
+        } else if (rawChildren !== undefined && rawChildren !== null) {
+            report(`${path}.children`, `Kiểu ${describe(rawChildren)} không phải mảng, bỏ qua`);
+        }
+        if (Array.isArray(node.refs)) {
+            node.refs.forEach((r: any, i: number) => {
+                if (typeof r === 'string' && r.trim()) refs.push(r.trim());
+                else report(`${path}.refs[${i}]`, `Tham chiếu không hợp lệ (${describe(r)}), đã bỏ`);
+            });
+        } else if (node.refs !== undefined && node.refs !== null) {
+            report(`${path}.refs`, `Kiểu ${describe(node.refs)} không phải mảng, bỏ qua`);
+        }
+
+        if (node.isProven !== undefined && typeof node.isProven !== 'boolean') {
+            report(`${path}.isProven`, `Kiểu ${describe(node.isProven)} được chuyển thành boolean`);
+        }
+
+        const result: LogicNode = { id, statement, method, reason, type, isProven: !!node.isProven, children };
+        if (typeof node.catalog_id === 'string' && node.catalog_id.trim()) {
+            result.catalog_id = node.catalog_id.trim();
+        }
+        if (refs.length > 0) {
+            result.refs = refs;
+            refPaths.set(result, path);
+        }
+        return result;
+    };
+
+    const resolvedRoot = (root: LogicNode): LogicNode => {
+        resolveRefs(root);
+        return root;
+    };
+
+    // Sau khi đọc xong một hướng giải: bỏ tham chiếu tới id không tồn tại, tự tham chiếu, trùng với con trực tiếp
+    // hoặc tạo vòng (tham chiếu ngược lên tổ tiên)
+    const refPaths = new Map<LogicNode, string>();
+    const resolveRefs = (root: LogicNode) => {
+        const index = new Map<string, LogicNode>();
+        const collect = (n: LogicNode) => {
+            index.set(n.id, n);
+            n.children?.forEach(collect);
+        };
+        collect(root);
+
+        const state = new Map<string, 'visiting' | 'done'>();
+        const visit = (n: LogicNode) => {
+            state.set(n.id, 'visiting');
+            n.children?.forEach(c => { if (!state.has(c.id)) visit(c); });
+            if (n.refs) {
+                const path = refPaths.get(n) || n.id;
+                const kept: string[] = [];
+                n.refs.forEach(ref => {
+                    const target = index.get(ref);
+                    if (!target) {
+                        report(`${path}.refs`, `Không tìm thấy node "${ref}" trong hướng giải, đã bỏ tham chiếu`);
+                    } else if (ref === n.id || state.get(ref) === 'visiting') {
+                        report(`${path}.refs`, `Tham chiếu "${ref}" tạo vòng lặp, đã bỏ`);
+                    } else if (kept.includes(ref) || n.children?.some(c => c.id === ref)) {
+                        report(`${path}.refs`, `Tham chiếu "${ref}" bị trùng, đã bỏ`);
+                    } else {
+                        kept.push(ref);
+                        if (!state.has(ref)) visit(target);
+                    }
+                });
+                if (kept.length > 0) n.refs = kept;
+                else delete n.refs;
+            }
+            state.set(n.id, 'done');
+        };
+        visit(root);
+    };
+
+    // Sinh id ổn định từ đường dẫn (không dùng số ngẫu nhiên để kết quả lặp lại được)
+    const uniqueId = (prefix: string, path: string): string => {
+        const base = `${prefix}_${path.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '')}`;
+        let candidate = base;
+        let n = 2;
+        while (usedNodeIds.has(candidate)) candidate = `${base}_${n++}`;
+        usedNodeIds.add(candidate);
+        return candidate;
+    };
+
+    const readKnowledge = (item: any, path: string): KnowledgeItem | null => {
+        if (typeof item === 'string' && item.trim()) {
+            report(path, `Kiến thức dạng chuỗi được chuyển thành đối tượng`);
+            return { name: item, description: "", textbook_ref: "" };
+        }
+        if (!item || typeof item !== 'object' || Array.isArray(item)) {
+            report(path, `Mục kiến thức không hợp lệ (${describe(item)}), đã bỏ`);
+            return null;
+        }
+        const name = readString(item.name, `${path}.name`, "", false).trim();
+        if (!name) {
+            report(`${path}.name`, `Thiếu tên kiến thức, đã bỏ mục này`);
+            return null;
+        }
+        const result: KnowledgeItem = {
+            name,
+            description: readString(item.description, `${path}.description`, "", true),
+            textbook_ref: readString(item.textbook_ref, `${path}.textbook_ref`, "", true)
+        };
+        if (typeof item.catalog_id === 'string' && item.catalog_id.trim()) {
+            result.catalog_id = item.catalog_id.trim();
+        }
+        return result;
+    };
+
+    // Bước lời giải: chuỗi hoặc { statement, justification, node_id }. node_id tra trong sơ đồ của chính hướng giải này
+    // (id có thể trùng với hướng giải khác); id không có trong sơ đồ thì bỏ liên kết.
+    const readProofSteps = (val: any, path: string, root: LogicNode): ProofStep[] => {
+        if (!Array.isArray(val)) {
+            report(path, `Kiểu ${describe(val)} không phải mảng, bỏ qua`);
+            return [];
+        }
+        const nodes = indexNodes(root);
+        const steps: ProofStep[] = [];
+        val.forEach((item: any, i: number) => {
+            const stepPath = `${path}[${i}]`;
+            if (typeof item === 'string' && item.trim()) {
+                steps.push({ statement: item.trim(), justification: "" });
+                return;
+            }
+            if (!item || typeof item !== 'object' || Array.isArray(item)) {
+                report(stepPath, `Bước không hợp lệ (${describe(item)}), đã bỏ`);
+                return;
+            }
+            const statement = readString(item.statement, `${stepPath}.statement`, "", false).trim();
+            if (!statement) {
+                report(`${stepPath}.statement`, `Thiếu nội dung bước, đã bỏ`);
+                return;
+            }
+            const step: ProofStep = {
+                statement,
+                justification: readString(item.justification !== undefined ? item.justification : item.reason, `${stepPath}.justification`, "", false)
+            };
+            const nodeId = item.node_id !== undefined ? item.node_id : item.node;
+            if (typeof nodeId === 'string' && nodes.has(nodeId.trim())) {
+                step.node_id = nodeId.trim();
+            } else if (nodeId !== undefined && nodeId !== null) {
+                report(`${stepPath}.node_id`, `Không tìm thấy node "${toText(nodeId)}" trong hướng giải, bỏ liên kết`);
+            }
+            steps.push(step);
+        });
+        return steps;
+    };
+
+    // Ghép các bước thành lời giải dạng văn bản (cho các màn hình chỉ hiển thị forward_proof)
+    const proofText = (steps: ProofStep[]): string =>
+        steps.map(s => s.justification ? `${s.statement} (${s.justification})` : s.statement).join('\n');
+
+    const readNumber = (val: any): number | null => {
+        const n = typeof val === 'string' ? parseFloat(val) : val;
+        return typeof n === 'number' && isFinite(n) ? n : null;
+    };
+
+    // Hình vẽ là tùy chọn: phần tử hỏng bị bỏ, phần tử tham chiếu tới điểm không tồn tại cũng bị bỏ
+    const readFigure = (fig: any, path: string): GeometryFigure | undefined => {
+        if (!fig || typeof fig !== 'object' || Array.isArray(fig)) {
+            report(path, `Hình vẽ không hợp lệ (${describe(fig)}), đã bỏ`);
+            return undefined;
+        }
+        const list = (key: string): any[] => {
+            if (fig[key] === undefined || fig[key] === null) return [];
+            if (Array.isArray(fig[key])) return fig[key];
+            report(`${path}.${key}`, `Kiểu ${describe(fig[key])} không phải mảng, bỏ qua`);
+            return [];
+        };
+
+        const points: FigurePoint[] = [];
+        const names = new Set<string>();
+        list('points').forEach((p: any, i: number) => {
+            const name = normalizePointName(typeof p?.name === 'string' ? p.name : '');
+            const x = readNumber(p?.x);
+            const y = readNumber(p?.y);
+            if (!name || x === null || y === null) {
+                report(`${path}.points[${i}]`, `Điểm thiếu tên hoặc tọa độ, đã bỏ`);
+            } else if (names.has(name)) {
+                report(`${path}.points[${i}].name`, `Trùng điểm "${name}", đã bỏ`);
+            } else {
+                names.add(name);
+                points.push({ name, x, y });
+            }
+        });
+        if (points.length === 0) {
+            report(`${path}.points`, `Hình vẽ không có điểm nào, đã bỏ`);
+            return undefined;
+        }
+
+        // Trả về tên điểm đã chuẩn hóa, hoặc null (kèm báo lỗi) nếu điểm không có trong hình
+        const ref = (val: any, itemPath: string): string | null => {
+            const name = normalizePointName(typeof val === 'string' ? val : '');
+            if (names.has(name)) return name;
+            report(itemPath, `Điểm "${toText(val)}" không có trong hình, đã bỏ phần tử này`);
+            return null;
+        };
+        const readMarks = (val: any): number => {
+            const n = readNumber(val);
+            return n === null ? 1 : Math.min(3, Math.max(1, Math.round(n)));
+        };
+
+        const segments: FigureSegment[] = [];
+        list('segments').forEach((sg: any, i: number) => {
+            const from = ref(sg?.from, `${path}.segments[${i}].from`);
+            const to = from && ref(sg?.to, `${path}.segments[${i}].to`);
+            if (from && to && from !== to) segments.push({ from, to, dashed: !!sg.dashed });
+        });
+
+        const circles: FigureCircle[] = [];
+        list('circles').forEach((c: any, i: number) => {
+            const center = ref(c?.center, `${path}.circles[${i}].center`);
+            if (!center) return;
+            const radius = readNumber(c.radius);
+            if (radius !== null && radius > 0) {
+                circles.push({ center, radius });
+            } else if (c.through !== undefined) {
+                const through = ref(c.through, `${path}.circles[${i}].through`);
+                if (through) circles.push({ center, through });
+            } else {
+                report(`${path}.circles[${i}]`, `Đường tròn thiếu bán kính, đã bỏ`);
+            }
+        });
+
+        const angles: FigureAngle[] = [];
+        list('angles').forEach((a: any, i: number) => {
+            const vertex = ref(a?.vertex, `${path}.angles[${i}].vertex`);
+            const from = vertex && ref(a.from, `${path}.angles[${i}].from`);
+            const to = from && ref(a.to, `${path}.angles[${i}].to`);
+            if (vertex && from && to) angles.push({ vertex, from, to, marks: readMarks(a.marks), right: !!a.right });
+        });
+
+        const equalMarks: FigureEqualMark[] = [];
+        list('equal_marks').forEach((m: any, i: number) => {
+            const from = ref(m?.from, `${path}.equal_marks[${i}].from`);
+            const to = from && ref(m.to, `${path}.equal_marks[${i}].to`);
+            if (from && to && from !== to) equalMarks.push({ from, to, marks: readMarks(m.marks) });
+        });
+
+        return { points, segments, circles, angles, equal_marks: equalMarks };
+    };
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new AnalysisError('json_syntax', `JSON gốc phải là một đối tượng (nhận được ${describe(raw)}).`);
+    }
+
+    // --- hypothesis ---
+    let hypothesis: string[] = [];
+    if (Array.isArray(raw.hypothesis)) {
+        hypothesis = raw.hypothesis.map((h: any, i: number) => readString(h, `hypothesis[${i}]`, "", true));
+    } else if (raw.hypothesis !== undefined) {
+        report('hypothesis', `Kiểu ${describe(raw.hypothesis)} không phải mảng, chuyển thành mảng`);
+        hypothesis = toText(raw.hypothesis).split('\n').filter(h => h.trim());
+    } else {
+        report('hypothesis', `Thiếu giả thiết`);
+    }
+
+    const conclusion = readString(raw.conclusion, 'conclusion', "Không xác định", true);
+
+    // --- branches ---
+    const globalProofRaw = raw.forward_proof !== undefined ? raw.forward_proof : raw.proof;
+    const globalProof = globalProofRaw !== undefined ? readString(globalProofRaw, 'forward_proof', "", false) : "";
+
+    const branches: AnalysisBranch[] = [];
+    const usedBranchIds = new Set<string>();
+
+    if (Array.isArray(raw.branches)) {
+        raw.branches.forEach((b: any, index: number) => {
+            const path = `branches[${index}]`;
+            if (!b || typeof b !== 'object' || Array.isArray(b)) {
+                report(path, `Hướng giải không hợp lệ (${describe(b)}), đã bỏ`);
+                return;
+            }
+
+            let id = readString(b.id, `${path}.id`, "", false).trim();
+            if (!id || usedBranchIds.has(id)) {
+                const fresh = `b${index}`;
+                report(`${path}.id`, id ? `Trùng id "${id}", đổi thành "${fresh}"` : `Thiếu id, đặt thành "${fresh}"`);
+                id = fresh;
+            }
+            usedBranchIds.add(id);
+
+            let status: AnalysisBranch['status'] = 'success';
+            if (BRANCH_STATUSES.includes(b.status)) {
+                status = b.status;
+            } else {
+                report(`${path}.status`, `Giá trị "${toText(b.status)}" không hợp lệ, dùng "success"`);
+            }
+
+            let rawRoot = b.root;
+            if (rawRoot === undefined && b.tree !== undefined) {
+                report(`${path}.root`, `Dùng trường "tree" thay cho "root"`);
+                rawRoot = b.tree;
+            }
+
+            usedNodeIds.clear();
+            const root = resolvedRoot(readNode(rawRoot, `${path}.root`, AnalysisType.ROOT));
+
+            let rawProof = b.forward_proof !== undefined ? b.forward_proof : b.proof;
+            let rawSteps = b.proof_steps;
+            if (Array.isArray(rawProof)) {
+                report(`${path}.forward_proof`, `Lời giải dạng mảng được chuyển sang "proof_steps"`);
+                if (rawSteps === undefined) rawSteps = rawProof;
+                rawProof = undefined;
+            }
+            const proofSteps = rawSteps !== undefined && rawSteps !== null ? readProofSteps(rawSteps, `${path}.proof_steps`, root) : [];
+
+            let forwardProof = rawProof !== undefined ? readString(rawProof, `${path}.forward_proof`, "", false) : "";
+            if (!forwardProof.trim() && proofSteps.length > 0) {
+                forwardProof = proofText(proofSteps);
+            } else if (!forwardProof.trim()) {
+                forwardProof = globalProof || PENDING_PROOF;
+                report(`${path}.forward_proof`, globalProof ? `Thiếu lời giải, dùng lời giải chung` : `Thiếu lời giải`);
+            }
+
+            const branch: AnalysisBranch = {
+                id,
+                name: readString(b.name, `${path}.name`, `Cách ${index + 1}`, true),
+                status,
+                explanation: readString(b.explanation, `${path}.explanation`, "", false),
+                root,
+                forward_proof: forwardProof
+            };
+            if (proofSteps.length > 0) branch.proof_steps = proofSteps;
+            branches.push(branch);
+        });
+    } else if (raw.reverse_analysis_tree || raw.root) {
+        const legacyKey = raw.reverse_analysis_tree ? 'reverse_analysis_tree' : 'root';
+        report('branches', `Thiếu "branches", chuyển "${legacyKey}" (định dạng cũ) thành một hướng giải`);
+        branches.push({
+            id: 'default',
+            name: 'Phương pháp tối ưu',
+            status: 'success',
+            explanation: 'Đây là hướng giải đề xuất.',
+            root: resolvedRoot(readNode(raw[legacyKey], legacyKey, AnalysisType.ROOT)),
+            forward_proof: globalProof || PENDING_PROOF
+        });
+    }
+
+    // --- knowledge_used ---
+    const knowledge: KnowledgeItem[] = [];
+    if (Array.isArray(raw.knowledge_used)) {
+        raw.knowledge_used.forEach((k: any, i: number) => {
+            const item = readKnowledge(k, `knowledge_used[${i}]`);
+            if (item) knowledge.push(item);
+        });
+    } else if (raw.knowledge_used !== undefined) {
+        report('knowledge_used', `Kiểu ${describe(raw.knowledge_used)} không phải mảng, bỏ qua`);
+    }
+
+    const figure = raw.figure !== undefined && raw.figure !== null ? readFigure(raw.figure, 'figure') : undefined;
+
+    return {
+        value: {
+            hypothesis,
+            conclusion,
+            branches,
+            knowledge_used: knowledge,
+            figure,
+            diagnostics: issues
+        },
+        issues
+    };
+};
@@ -0,0 +1,64 @@
+import { GeometryResponse } from '../types';
+import { GeosolverFile, createGeosolverFile, parseGeosolverFile } from './geosolverFile';
+import { AnalysisError } from './analysisErrors';
+
+// Đường link chia sẻ: nén tệp .geosolver (deflate) rồi mã hóa base64url vào phần # của URL.
+// Phần # không được gửi lên máy chủ; mở link là hiện ngay kết quả, không cần API key hay gọi model.
+//   https://.../#share=<base64url>&branch=<id hướng giải>
+
+const SHARE_PARAM = 'share';
+const BRANCH_PARAM = 'branch';
+
+// Nhiều ứng dụng chat cắt hoặc từ chối link quá dài -> dùng tệp thay thế
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+export interface SharedAnalysis {
+    file: GeosolverFile;
+    branchId?: string;
+}
+
+const streamBytes = async (bytes: Uint8Array<ArrayBuffer>, transform: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> =>
+    new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array<ArrayBuffer> => {
+    const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+    return Uint8Array.from(atob(base64 + '='.repeat((4 - base64.length % 4) % 4)), c => c.charCodeAt(0));
+};
+
+export const isShareSupported = (): boolean =>
+    typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+export const encodeSharePayload = async (data: GeometryResponse, problem: string = ''): Promise<string> => {
+    const json = JSON.stringify(createGeosolverFile(data, problem));
+    return toBase64Url(await streamBytes(new TextEncoder().encode(json), new CompressionStream('deflate-raw')));
+};
+
+export const decodeSharePayload = async (payload: string): Promise<GeosolverFile> => {
+    let bytes: Uint8Array<ArrayBuffer>;
+    try {
+        bytes = await streamBytes(fromBase64Url(payload), new DecompressionStream('deflate-raw'));
+    } catch (e) {
+        throw new AnalysisError('file', "Đường link chia sẻ bị hỏng hoặc bị cắt mất một phần.");
+    }
+    return parseGeosolverFile(new TextDecoder().decode(bytes));
+};
+
+export const buildShareUrl = async (data: GeometryResponse, problem: string, branchId?: string, baseUrl: string = window.location.href): Promise<string> => {
+    const params = new URLSearchParams({ [SHARE_PARAM]: await encodeSharePayload(data, problem) });
+    if (branchId) params.set(BRANCH_PARAM, branchId);
+    return `${baseUrl.split('#')[0]}#${params.toString()}`;
+};
+
+// Đọc phần # của URL; không phải link chia sẻ thì trả về null, link hỏng thì ném lỗi
+export const readShareFragment = async (hash: string): Promise<SharedAnalysis | null> => {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const payload = params.get(SHARE_PARAM);
+    if (!payload) return null;
+    return { file: await decodeSharePayload(payload), branchId: params.get(BRANCH_PARAM) || undefined };
+};
@@ -0,0 +1,466 @@
+import { GeometryResponse, KnowledgeItem, LogicNode, GradeLevel } from '../types';
+
+// Danh mục định nghĩa / định lý hình học THCS theo SGK Toán 7–9 "Chân trời sáng tạo".
+// Id là khóa cố định (được lưu trong lịch sử, file xuất...) -> chỉ thêm mới, không đổi tên.
+// Số trang theo bản in của NXB Giáo dục Việt Nam.
+
+export interface CatalogEntry {
+    id: string;
+    name: string;
+    statement: string;
+    grade: GradeLevel;
+    volume: 1 | 2;
+    page: number;
+    lesson: string;
+    aliases: string[]; // Cách gọi thường gặp, viết không dấu, chữ thường
+}
+
+export const THEOREM_CATALOG: CatalogEntry[] = [
+    // --- Toán 7 ---
+    {
+        id: 'ctst7-doi-dinh', grade: 7, volume: 1, page: 77, lesson: "Chương 4 - Bài 1. Các góc ở vị trí đặc biệt",
+        name: "Tính chất hai góc đối đỉnh",
+        statement: "Hai góc đối đỉnh thì bằng nhau.",
+        aliases: ['doi dinh']
+    },
+    {
+        id: 'ctst7-ke-bu', grade: 7, volume: 1, page: 76, lesson: "Chương 4 - Bài 1. Các góc ở vị trí đặc biệt",
+        name: "Hai góc kề bù",
+        statement: "Hai góc kề bù có tổng số đo bằng $180^\\circ$.",
+        aliases: ['ke bu']
+    },
+    {
+        id: 'ctst7-tia-phan-giac', grade: 7, volume: 1, page: 82, lesson: "Chương 4 - Bài 2. Tia phân giác",
+        name: "Tia phân giác của một góc",
+        statement: "Tia phân giác của một góc là tia nằm giữa hai cạnh của góc và tạo với hai cạnh ấy hai góc bằng nhau.",
+        aliases: ['tia phan giac', 'dinh nghia tia phan giac']
+    },
+    {
+        id: 'ctst7-song-song-dau-hieu', grade: 7, volume: 1, page: 86, lesson: "Chương 4 - Bài 3. Hai đường thẳng song song",
+        name: "Dấu hiệu nhận biết hai đường thẳng song song",
+        statement: "Nếu đường thẳng $c$ cắt hai đường thẳng $a$, $b$ và trong các góc tạo thành có một cặp góc so le trong bằng nhau (hoặc một cặp góc đồng vị bằng nhau) thì $a \\parallel b$.",
+        aliases: ['dau hieu nhan biet hai duong thang song song', 'so le trong bang nhau', 'dong vi bang nhau']
+    },
+    {
+        id: 'ctst7-tien-de-euclid', grade: 7, volume: 1, page: 88, lesson: "Chương 4 - Bài 3. Hai đường thẳng song song",
+        name: "Tiên đề Euclid",
+        statement: "Qua một điểm ở ngoài một đường thẳng, chỉ có một đường thẳng song song với đường thẳng đó.",
+        aliases: ['tien de euclid', 'tien de oclit', 'euclid']
+    },
+    {
+        id: 'ctst7-song-song-tinh-chat', grade: 7, volume: 1, page: 89, lesson: "Chương 4 - Bài 3. Hai đường thẳng song song",
+        name: "Tính chất hai đường thẳng song song",
+        statement: "Nếu một đường thẳng cắt hai đường thẳng song song thì hai góc so le trong bằng nhau và hai góc đồng vị bằng nhau.",
+        aliases: ['tinh chat hai duong thang song song', 'so le trong', 'dong vi']
+    },
+    {
+        id: 'ctst7-tong-ba-goc', grade: 7, volume: 2, page: 49, lesson: "Chương 8 - Bài 1. Góc và cạnh của một tam giác",
+        name: "Định lý tổng ba góc của một tam giác",
+        statement: "Tổng ba góc của một tam giác bằng $180^\\circ$.",
+        aliases: ['tong ba goc', 'tong cac goc cua tam giac']
+    },
+    {
+        id: 'ctst7-bat-dang-thuc-tam-giac', grade: 7, volume: 2, page: 51, lesson: "Chương 8 - Bài 1. Góc và cạnh của một tam giác",
+        name: "Bất đẳng thức tam giác",
+        statement: "Trong một tam giác, tổng độ dài hai cạnh bất kì bao giờ cũng lớn hơn độ dài cạnh còn lại.",
+        aliases: ['bat dang thuc tam giac']
+    },
+    {
+        id: 'ctst7-tg-ccc', grade: 7, volume: 2, page: 55, lesson: "Chương 8 - Bài 2. Tam giác bằng nhau",
+        name: "Trường hợp bằng nhau cạnh – cạnh – cạnh (c.c.c)",
+        statement: "Nếu ba cạnh của tam giác này bằng ba cạnh của tam giác kia thì hai tam giác đó bằng nhau.",
+        aliases: ['c c c', 'canh canh canh']
+    },
+    {
+        id: 'ctst7-tg-cgc', grade: 7, volume: 2, page: 56, lesson: "Chương 8 - Bài 2. Tam giác bằng nhau",
+        name: "Trường hợp bằng nhau cạnh – góc – cạnh (c.g.c)",
+        statement: "Nếu hai cạnh và góc xen giữa của tam giác này bằng hai cạnh và góc xen giữa của tam giác kia thì hai tam giác đó bằng nhau.",
+        aliases: ['c g c', 'canh goc canh']
+    },
+    {
+        id: 'ctst7-tg-gcg', grade: 7, volume: 2, page: 57, lesson: "Chương 8 - Bài 2. Tam giác bằng nhau",
+        name: "Trường hợp bằng nhau góc – cạnh – góc (g.c.g)",
+        statement: "Nếu một cạnh và hai góc kề của tam giác này bằng một cạnh và hai góc kề của tam giác kia thì hai tam giác đó bằng nhau.",
+        aliases: ['g c g', 'goc canh goc']
+    },
+    {
+        id: 'ctst7-tgv-hai-cgv', grade: 7, volume: 2, page: 58, lesson: "Chương 8 - Bài 2. Tam giác bằng nhau",
+        name: "Tam giác vuông bằng nhau: hai cạnh góc vuông",
+        statement: "Nếu hai cạnh góc vuông của tam giác vuông này bằng hai cạnh góc vuông của tam giác vuông kia thì hai tam giác vuông đó bằng nhau.",
+        aliases: ['hai canh goc vuong']
+    },
+    {
+        id: 'ctst7-tgv-ch-gn', grade: 7, volume: 2, page: 59, lesson: "Chương 8 - Bài 2. Tam giác bằng nhau",
+        name: "Tam giác vuông bằng nhau: cạnh huyền – góc nhọn",
+        statement: "Nếu cạnh huyền và một góc nhọn của tam giác vuông này bằng cạnh huyền và một góc nhọn của tam giác vuông kia thì hai tam giác vuông đó bằng nhau.",
+        aliases: ['canh huyen goc nhon', 'ch gn']
+    },
+    {
+        id: 'ctst7-tgv-ch-cgv', grade: 7, volume: 2, page: 59, lesson: "Chương 8 - Bài 2. Tam giác bằng nhau",
+        name: "Tam giác vuông bằng nhau: cạnh huyền – cạnh góc vuông",
+        statement: "Nếu cạnh huyền và một cạnh góc vuông của tam giác vuông này bằng cạnh huyền và một cạnh góc vuông của tam giác vuông kia thì hai tam giác vuông đó bằng nhau.",
+        aliases: ['canh huyen canh goc vuong', 'ch cgv']
+    },
+    {
+        id: 'ctst7-tam-giac-can-tinh-chat', grade: 7, volume: 2, page: 62, lesson: "Chương 8 - Bài 3. Tam giác cân",
+        name: "Tính chất tam giác cân",
+        statement: "Trong một tam giác cân, hai cạnh bên bằng nhau và hai góc ở đáy bằng nhau.",
+        aliases: ['tinh chat tam giac can', 'tam giac can', 'hai goc o day']
+    },
+    {
+        id: 'ctst7-tam-giac-can-dau-hieu', grade: 7, volume: 2, page: 63, lesson: "Chương 8 - Bài 3. Tam giác cân",
+        name: "Dấu hiệu nhận biết tam giác cân",
+        statement: "Nếu một tam giác có hai góc bằng nhau thì tam giác đó là tam giác cân.",
+        aliases: ['dau hieu nhan biet tam giac can', 'chung minh tam giac can']
+    },
+    {
+        id: 'ctst7-tam-giac-deu', grade: 7, volume: 2, page: 63, lesson: "Chương 8 - Bài 3. Tam giác cân",
+        name: "Tam giác đều",
+        statement: "Tam giác đều có ba cạnh bằng nhau và ba góc bằng nhau, mỗi góc bằng $60^\\circ$.",
+        aliases: ['tam giac deu']
+    },
+    {
+        id: 'ctst7-duong-xien', grade: 7, volume: 2, page: 67, lesson: "Chương 8 - Bài 4. Đường vuông góc và đường xiên",
+        name: "Đường vuông góc và đường xiên",
+        statement: "Trong các đường xiên và đường vuông góc kẻ từ một điểm ở ngoài một đường thẳng đến đường thẳng đó, đường vuông góc là đường ngắn nhất.",
+        aliases: ['duong vuong goc va duong xien', 'duong xien']
+    },
+    {
+        id: 'ctst7-trung-truc', grade: 7, volume: 2, page: 71, lesson: "Chương 8 - Bài 5. Đường trung trực của một đoạn thẳng",
+        name: "Tính chất đường trung trực của một đoạn thẳng",
+        statement: "Điểm nằm trên đường trung trực của một đoạn thẳng thì cách đều hai mút của đoạn thẳng đó. Ngược lại, điểm cách đều hai mút của một đoạn thẳng thì nằm trên đường trung trực của đoạn thẳng đó.",
+        aliases: ['duong trung truc', 'trung truc']
+    },
+    {
+        id: 'ctst7-ba-trung-truc', grade: 7, volume: 2, page: 74, lesson: "Chương 8 - Bài 6. Tính chất ba đường trung trực của tam giác",
+        name: "Tính chất ba đường trung trực của tam giác",
+        statement: "Ba đường trung trực của một tam giác cùng đi qua một điểm. Điểm này cách đều ba đỉnh của tam giác.",
+        aliases: ['ba duong trung truc']
+    },
+    {
+        id: 'ctst7-ba-trung-tuyen', grade: 7, volume: 2, page: 77, lesson: "Chương 8 - Bài 7. Tính chất ba đường trung tuyến của tam giác",
+        name: "Tính chất ba đường trung tuyến của tam giác",
+        statement: "Ba đường trung tuyến của một tam giác cùng đi qua một điểm (trọng tâm $G$). Trọng tâm cách mỗi đỉnh một khoảng bằng $\\frac{2}{3}$ độ dài đường trung tuyến đi qua đỉnh đó.",
+        aliases: ['ba duong trung tuyen', 'trong tam']
+    },
+    {
+        id: 'ctst7-ba-duong-cao', grade: 7, volume: 2, page: 81, lesson: "Chương 8 - Bài 8. Tính chất ba đường cao của tam giác",
+        name: "Tính chất ba đường cao của tam giác",
+        statement: "Ba đường cao của một tam giác cùng đi qua một điểm (trực tâm của tam giác).",
+        aliases: ['ba duong cao', 'truc tam']
+    },
+    {
+        id: 'ctst7-tia-phan-giac-cach-deu', grade: 7, volume: 2, page: 84, lesson: "Chương 8 - Bài 9. Tính chất ba đường phân giác của tam giác",
+        name: "Tính chất tia phân giác của một góc",
+        statement: "Điểm nằm trên tia phân giác của một góc thì cách đều hai cạnh của góc đó.",
+        aliases: ['tinh chat tia phan giac', 'cach deu hai canh']
+    },
+    {
+        id: 'ctst7-ba-phan-giac', grade: 7, volume: 2, page: 85, lesson: "Chương 8 - Bài 9. Tính chất ba đường phân giác của tam giác",
+        name: "Tính chất ba đường phân giác của tam giác",
+        statement: "Ba đường phân giác của một tam giác cùng đi qua một điểm. Điểm này cách đều ba cạnh của tam giác.",
+        aliases: ['ba duong phan giac']
+    },
+    {
+        id: 'ctst7-tam-giac-can-duong-dac-biet', grade: 7, volume: 2, page: 82, lesson: "Chương 8 - Bài 8. Tính chất ba đường cao của tam giác",
+        name: "Các đường đặc biệt trong tam giác cân",
+        statement: "Trong một tam giác cân, đường trung tuyến ứng với cạnh đáy đồng thời là đường cao, đường phân giác và đường trung trực của cạnh đó.",
+        aliases: ['dong thoi la duong cao', 'dong thoi la duong phan giac', 'dong thoi la duong trung truc', 'dong thoi la duong trung tuyen']
+    },
+
+    // --- Toán 8 ---
+    {
+        id: 'ctst8-pythagore', grade: 8, volume: 1, page: 57, lesson: "Chương 3 - Bài 1. Định lí Pythagore",
+        name: "Định lý Pythagore",
+        statement: "Trong một tam giác vuông, bình phương độ dài cạnh huyền bằng tổng bình phương độ dài hai cạnh góc vuông.",
+        aliases: ['pythagore', 'pytago', 'pitago']
+    },
+    {
+        id: 'ctst8-pythagore-dao', grade: 8, volume: 1, page: 58, lesson: "Chương 3 - Bài 1. Định lí Pythagore",
+        name: "Định lý Pythagore đảo",
+        statement: "Nếu một tam giác có bình phương độ dài một cạnh bằng tổng bình phương độ dài hai cạnh còn lại thì tam giác đó là tam giác vuông.",
+        aliases: ['pythagore dao', 'dao pythagore', 'pytago dao', 'dao pytago']
+    },
+    {
+        id: 'ctst8-tong-goc-tu-giac', grade: 8, volume: 1, page: 63, lesson: "Chương 3 - Bài 2. Tứ giác",
+        name: "Tổng các góc của một tứ giác",
+        statement: "Tổng các góc của một tứ giác bằng $360^\\circ$.",
+        aliases: ['tong cac goc cua tu giac', 'tong bon goc']
+    },
+    {
+        id: 'ctst8-hinh-thang-can', grade: 8, volume: 1, page: 68, lesson: "Chương 3 - Bài 3. Hình thang – Hình thang cân",
+        name: "Tính chất và dấu hiệu nhận biết hình thang cân",
+        statement: "Trong hình thang cân, hai cạnh bên bằng nhau và hai đường chéo bằng nhau. Hình thang có hai góc kề một đáy bằng nhau (hoặc hai đường chéo bằng nhau) là hình thang cân.",
+        aliases: ['hinh thang can']
+    },
+    {
+        id: 'ctst8-hbh-tinh-chat', grade: 8, volume: 1, page: 73, lesson: "Chương 3 - Bài 4. Hình bình hành – Hình thoi",
+        name: "Tính chất hình bình hành",
+        statement: "Trong hình bình hành: các cạnh đối bằng nhau; các góc đối bằng nhau; hai đường chéo cắt nhau tại trung điểm của mỗi đường.",
+        aliases: ['tinh chat hinh binh hanh', 'hinh binh hanh']
+    },
+    {
+        id: 'ctst8-hbh-dau-hieu', grade: 8, volume: 1, page: 74, lesson: "Chương 3 - Bài 4. Hình bình hành – Hình thoi",
+        name: "Dấu hiệu nhận biết hình bình hành",
+        statement: "Tứ giác có các cạnh đối song song, hoặc các cạnh đối bằng nhau, hoặc hai cạnh đối song song và bằng nhau, hoặc các góc đối bằng nhau, hoặc hai đường chéo cắt nhau tại trung điểm của mỗi đường là hình bình hành.",
+        aliases: ['dau hieu nhan biet hinh binh hanh', 'chung minh hinh binh hanh']
+    },
+    {
+        id: 'ctst8-hinh-thoi', grade: 8, volume: 1, page: 76, lesson: "Chương 3 - Bài 4. Hình bình hành – Hình thoi",
+        name: "Tính chất và dấu hiệu nhận biết hình thoi",
+        statement: "Trong hình thoi, hai đường chéo vuông góc với nhau và là các đường phân giác của các góc. Hình bình hành có hai cạnh kề bằng nhau (hoặc hai đường chéo vuông góc) là hình thoi.",
+        aliases: ['hinh thoi']
+    },
+    {
+        id: 'ctst8-hinh-chu-nhat', grade: 8, volume: 1, page: 79, lesson: "Chương 3 - Bài 5. Hình chữ nhật – Hình vuông",
+        name: "Tính chất và dấu hiệu nhận biết hình chữ nhật",
+        statement: "Trong hình chữ nhật, hai đường chéo bằng nhau và cắt nhau tại trung điểm của mỗi đường. Tứ giác có ba góc vuông, hoặc hình bình hành có một góc vuông (hoặc hai đường chéo bằng nhau) là hình chữ nhật.",
+        aliases: ['hinh chu nhat']
+    },
+    {
+        id: 'ctst8-trung-tuyen-canh-huyen', grade: 8, volume: 1, page: 80, lesson: "Chương 3 - Bài 5. Hình chữ nhật – Hình vuông",
+        name: "Đường trung tuyến ứng với cạnh huyền",
+        statement: "Trong tam giác vuông, đường trung tuyến ứng với cạnh huyền bằng nửa cạnh huyền.",
+        aliases: ['trung tuyen ung voi canh huyen', 'bang nua canh huyen']
+    },
+    {
+        id: 'ctst8-hinh-vuong', grade: 8, volume: 1, page: 81, lesson: "Chương 3 - Bài 5. Hình chữ nhật – Hình vuông",
+        name: "Tính chất và dấu hiệu nhận biết hình vuông",
+        statement: "Hình vuông vừa là hình chữ nhật vừa là hình thoi. Hình chữ nhật có hai cạnh kề bằng nhau (hoặc hai đường chéo vuông góc) là hình vuông.",
+        aliases: ['hinh vuong']
+    },
+    {
+        id: 'ctst8-thales', grade: 8, volume: 2, page: 51, lesson: "Chương 7 - Bài 1. Định lí Thalès trong tam giác",
+        name: "Định lý Thalès trong tam giác",
+        statement: "Nếu một đường thẳng song song với một cạnh của tam giác và cắt hai cạnh còn lại thì nó định ra trên hai cạnh đó những đoạn thẳng tương ứng tỉ lệ.",
+        aliases: ['thales', 'talet', 'ta let']
+    },
+    {
+        id: 'ctst8-thales-dao', grade: 8, volume: 2, page: 53, lesson: "Chương 7 - Bài 1. Định lí Thalès trong tam giác",
+        name: "Định lý Thalès đảo",
+        statement: "Nếu một đường thẳng cắt hai cạnh của một tam giác và định ra trên hai cạnh này những đoạn thẳng tương ứng tỉ lệ thì đường thẳng đó song song với cạnh còn lại của tam giác.",
+        aliases: ['thales dao', 'dao thales', 'talet dao', 'dao talet']
+    },
+    {
+        id: 'ctst8-he-qua-thales', grade: 8, volume: 2, page: 53, lesson: "Chương 7 - Bài 1. Định lí Thalès trong tam giác",
+        name: "Hệ quả của định lý Thalès",
+        statement: "Nếu một đường thẳng cắt hai cạnh của một tam giác và song song với cạnh còn lại thì nó tạo thành một tam giác mới có ba cạnh tương ứng tỉ lệ với ba cạnh của tam giác đã cho.",
+        aliases: ['he qua thales', 'he qua talet', 'he qua dinh ly thales', 'he qua dinh ly talet', 'he qua cua dinh ly thales', 'he qua cua dinh ly talet']
+    },
+    {
+        id: 'ctst8-duong-trung-binh', grade: 8, volume: 2, page: 57, lesson: "Chương 7 - Bài 2. Đường trung bình của tam giác",
+        name: "Tính chất đường trung bình của tam giác",
+        statement: "Đường trung bình của tam giác thì song song với cạnh thứ ba và bằng nửa cạnh ấy.",
+        aliases: ['duong trung binh']
+    },
+    {
+        id: 'ctst8-phan-giac-tam-giac', grade: 8, volume: 2, page: 61, lesson: "Chương 7 - Bài 3. Tính chất đường phân giác của tam giác",
+        name: "Tính chất đường phân giác của tam giác",
+        statement: "Trong tam giác, đường phân giác của một góc chia cạnh đối diện thành hai đoạn thẳng tỉ lệ với hai cạnh kề hai đoạn ấy.",
+        aliases: ['tinh chat duong phan giac cua tam giac', 'tinh chat duong phan giac trong tam giac', 'tinh chat duong phan giac']
+    },
+    {
+        id: 'ctst8-dong-dang-song-song', grade: 8, volume: 2, page: 67, lesson: "Chương 8 - Bài 1. Hai tam giác đồng dạng",
+        name: "Định lý về hai tam giác đồng dạng",
+        statement: "Nếu một đường thẳng cắt hai cạnh của tam giác và song song với cạnh còn lại thì nó tạo thành một tam giác mới đồng dạng với tam giác đã cho.",
+        aliases: ['dinh nghia tam giac dong dang', 'dong dang']
+    },
+    {
+        id: 'ctst8-dong-dang-ccc', grade: 8, volume: 2, page: 71, lesson: "Chương 8 - Bài 2. Các trường hợp đồng dạng của hai tam giác",
+        name: "Trường hợp đồng dạng cạnh – cạnh – cạnh",
+        statement: "Nếu ba cạnh của tam giác này tỉ lệ với ba cạnh của tam giác kia thì hai tam giác đó đồng dạng.",
+        aliases: ['dong dang c c c', 'dong dang canh canh canh', 'dong dang truong hop c c c']
+    },
+    {
+        id: 'ctst8-dong-dang-cgc', grade: 8, volume: 2, page: 72, lesson: "Chương 8 - Bài 2. Các trường hợp đồng dạng của hai tam giác",
+        name: "Trường hợp đồng dạng cạnh – góc – cạnh",
+        statement: "Nếu hai cạnh của tam giác này tỉ lệ với hai cạnh của tam giác kia và hai góc tạo bởi các cặp cạnh đó bằng nhau thì hai tam giác đó đồng dạng.",
+        aliases: ['dong dang c g c', 'dong dang canh goc canh', 'dong dang truong hop c g c']
+    },
+    {
+        id: 'ctst8-dong-dang-gg', grade: 8, volume: 2, page: 74, lesson: "Chương 8 - Bài 2. Các trường hợp đồng dạng của hai tam giác",
+        name: "Trường hợp đồng dạng góc – góc",
+        statement: "Nếu hai góc của tam giác này lần lượt bằng hai góc của tam giác kia thì hai tam giác đó đồng dạng.",
+        aliases: ['dong dang g g', 'dong dang goc goc', 'g g', 'goc goc']
+    },
+    {
+        id: 'ctst8-dong-dang-tg-vuong', grade: 8, volume: 2, page: 78, lesson: "Chương 8 - Bài 3. Các trường hợp đồng dạng của hai tam giác vuông",
+        name: "Các trường hợp đồng dạng của hai tam giác vuông",
+        statement: "Hai tam giác vuông đồng dạng nếu có một góc nhọn bằng nhau, hoặc hai cạnh góc vuông tỉ lệ, hoặc cạnh huyền và một cạnh góc vuông tỉ lệ.",
+        aliases: ['tam giac vuong dong dang', 'hai tam giac vuong dong dang', 'dong dang cua hai tam giac vuong']
+    },
+
+    // --- Toán 9 ---
+    {
+        id: 'ctst9-ti-so-luong-giac', grade: 9, volume: 1, page: 73, lesson: "Chương 4 - Bài 1. Tỉ số lượng giác của góc nhọn",
+        name: "Tỉ số lượng giác của góc nhọn",
+        statement: "Trong tam giác vuông, với góc nhọn $\\alpha$: $\\sin\\alpha = \\frac{\\text{đối}}{\\text{huyền}}$, $\\cos\\alpha = \\frac{\\text{kề}}{\\text{huyền}}$, $\\tan\\alpha = \\frac{\\text{đối}}{\\text{kề}}$, $\\cot\\alpha = \\frac{\\text{kề}}{\\text{đối}}$.",
+        aliases: ['ti so luong giac', 'luong giac']
+    },
+    {
+        id: 'ctst9-he-thuc-canh-goc', grade: 9, volume: 1, page: 80, lesson: "Chương 4 - Bài 2. Hệ thức giữa cạnh và góc của tam giác vuông",
+        name: "Hệ thức giữa cạnh và góc của tam giác vuông",
+        statement: "Trong tam giác vuông, mỗi cạnh góc vuông bằng cạnh huyền nhân với sin góc đối hoặc cos góc kề; bằng cạnh góc vuông kia nhân với tan góc đối hoặc cot góc kề.",
+        aliases: ['he thuc giua canh va goc', 'he thuc canh va goc']
+    },
+    {
+        id: 'ctst9-duong-kinh-day', grade: 9, volume: 1, page: 90, lesson: "Chương 5 - Bài 1. Đường tròn",
+        name: "Quan hệ giữa đường kính và dây",
+        statement: "Trong một đường tròn, đường kính vuông góc với một dây thì đi qua trung điểm của dây ấy; đường kính đi qua trung điểm của một dây không đi qua tâm thì vuông góc với dây ấy.",
+        aliases: ['duong kinh va day', 'duong kinh vuong goc voi day', 'duong kinh di qua trung diem']
+    },
+    {
+        id: 'ctst9-tiep-tuyen', grade: 9, volume: 1, page: 97, lesson: "Chương 5 - Bài 3. Tiếp tuyến của đường tròn",
+        name: "Tính chất và dấu hiệu nhận biết tiếp tuyến",
+        statement: "Tiếp tuyến của đường tròn vuông góc với bán kính đi qua tiếp điểm. Ngược lại, đường thẳng đi qua một điểm của đường tròn và vuông góc với bán kính đi qua điểm đó là tiếp tuyến.",
+        aliases: ['tiep tuyen', 'vuong goc voi ban kinh']
+    },
+    {
+        id: 'ctst9-hai-tiep-tuyen', grade: 9, volume: 1, page: 99, lesson: "Chương 5 - Bài 3. Tiếp tuyến của đường tròn",
+        name: "Tính chất hai tiếp tuyến cắt nhau",
+        statement: "Nếu hai tiếp tuyến của một đường tròn cắt nhau tại một điểm thì điểm đó cách đều hai tiếp điểm, tia nối điểm đó với tâm là tia phân giác của góc tạo bởi hai tiếp tuyến.",
+        aliases: ['hai tiep tuyen cat nhau']
+    },
+    {
+        id: 'ctst9-goc-o-tam', grade: 9, volume: 1, page: 103, lesson: "Chương 5 - Bài 4. Góc ở tâm. Góc nội tiếp",
+        name: "Góc ở tâm",
+        statement: "Số đo của góc ở tâm bằng số đo cung bị chắn.",
+        aliases: ['goc o tam']
+    },
+    {
+        id: 'ctst9-goc-noi-tiep', grade: 9, volume: 1, page: 105, lesson: "Chương 5 - Bài 4. Góc ở tâm. Góc nội tiếp",
+        name: "Tính chất góc nội tiếp",
+        statement: "Số đo của góc nội tiếp bằng nửa số đo cung bị chắn. Các góc nội tiếp cùng chắn một cung thì bằng nhau.",
+        aliases: ['goc noi tiep', 'cung chan mot cung']
+    },
+    {
+        id: 'ctst9-goc-noi-tiep-nua-duong-tron', grade: 9, volume: 1, page: 106, lesson: "Chương 5 - Bài 4. Góc ở tâm. Góc nội tiếp",
+        name: "Góc nội tiếp chắn nửa đường tròn",
+        statement: "Góc nội tiếp chắn nửa đường tròn là góc vuông.",
+        aliases: ['chan nua duong tron']
+    },
+    {
+        id: 'ctst9-duong-tron-ngoai-tiep', grade: 9, volume: 2, page: 71, lesson: "Chương 9 - Bài 1. Đường tròn ngoại tiếp tam giác. Đường tròn nội tiếp tam giác",
+        name: "Đường tròn ngoại tiếp tam giác",
+        statement: "Tâm đường tròn ngoại tiếp tam giác là giao điểm ba đường trung trực. Tâm đường tròn ngoại tiếp tam giác vuông là trung điểm cạnh huyền.",
+        aliases: ['duong tron ngoai tiep tam giac', 'duong tron ngoai tiep']
+    },
+    {
+        id: 'ctst9-duong-tron-noi-tiep', grade: 9, volume: 2, page: 73, lesson: "Chương 9 - Bài 1. Đường tròn ngoại tiếp tam giác. Đường tròn nội tiếp tam giác",
+        name: "Đường tròn nội tiếp tam giác",
+        statement: "Tâm đường tròn nội tiếp tam giác là giao điểm ba đường phân giác trong của tam giác.",
+        aliases: ['duong tron noi tiep tam giac', 'duong tron noi tiep']
+    },
+    {
+        id: 'ctst9-tu-giac-noi-tiep', grade: 9, volume: 2, page: 76, lesson: "Chương 9 - Bài 2. Tứ giác nội tiếp",
+        name: "Tính chất tứ giác nội tiếp",
+        statement: "Trong một tứ giác nội tiếp, tổng số đo hai góc đối nhau bằng $180^\\circ$.",
+        aliases: ['tinh chat tu giac noi tiep', 'tu giac noi tiep']
+    },
+    {
+        id: 'ctst9-tu-giac-noi-tiep-dau-hieu', grade: 9, volume: 2, page: 77, lesson: "Chương 9 - Bài 2. Tứ giác nội tiếp",
+        name: "Dấu hiệu nhận biết tứ giác nội tiếp",
+        statement: "Nếu một tứ giác có tổng số đo hai góc đối nhau bằng $180^\\circ$ thì tứ giác đó nội tiếp được đường tròn.",
+        aliases: ['dau hieu nhan biet tu giac noi tiep', 'chung minh tu giac noi tiep', 'noi tiep duoc duong tron']
+    }
+];
+
+const BY_ID = new Map(THEOREM_CATALOG.map(e => [e.id, e]));
+
+export const getCatalogEntry = (id?: string): CatalogEntry | undefined => id ? BY_ID.get(id) : undefined;
+
+export const formatTextbookRef = (entry: CatalogEntry): string =>
+    `Toán ${entry.grade} Tập ${entry.volume} - CTST - Trang ${entry.page}`;
+
+// Bỏ dấu, chữ thường, gộp ký hiệu ("c.c.c", "c-c-c" -> "c c c") để so khớp cách gọi
+const normalize = (text: string): string =>
+    ` ${(text || '')
+        .replace(/\$[^$]*\$/g, ' ')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[đĐ]/g, 'd')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .replace(/\bdinh li\b/g, 'dinh ly')
+        .trim()} `;
+
+// Tìm mục khớp nhất với một cách gọi tự do: ưu tiên cách gọi dài nhất xuất hiện trong câu
+// ("đồng dạng c.g.c" thắng "c.g.c"; "Pythagore đảo" thắng "Pythagore").
+export const findCatalogEntry = (text?: string): CatalogEntry | undefined => {
+    if (!text) return undefined;
+    const direct = BY_ID.get(text.trim());
+    if (direct) return direct;
+
+    const norm = normalize(text);
+    let best: CatalogEntry | undefined;
+    let bestLength = 0;
+    THEOREM_CATALOG.forEach(entry => {
+        [normalize(entry.name).trim(), ...entry.aliases].forEach(alias => {
+            if (alias.length > bestLength && norm.includes(` ${alias} `)) {
+                best = entry;
+                bestLength = alias.length;
+            }
+        });
+    });
+    return best;
+};
+
+// Kiến thức dùng cho một node: id đã gắn, hoặc tra theo tên phương pháp
+export const resolveNodeKnowledge = (node: LogicNode, data: GeometryResponse): CatalogEntry | undefined =>
+    getCatalogEntry(node.catalog_id)
+    || findCatalogEntry(node.method)
+    || getCatalogEntry(data.knowledge_used?.find(k => node.method?.includes(k.name))?.catalog_id);
+
+// Dạng KnowledgeItem của một mục trong danh mục (để mở trong modal kiến thức)
+export const catalogKnowledgeItem = (entry: CatalogEntry): KnowledgeItem => ({
+    name: entry.name,
+    description: entry.statement,
+    textbook_ref: formatTextbookRef(entry),
+    catalog_id: entry.id
+});
+
+// Kiến thức mà một hướng giải thực sự dùng, theo thứ tự gặp trong sơ đồ (không lặp).
+// Không tra được mục nào thì trả về knowledge_used của cả bài.
+export const branchKnowledge = (root: LogicNode, data: GeometryResponse): KnowledgeItem[] => {
+    const items = new Map<string, KnowledgeItem>();
+    const visit = (node: LogicNode) => {
+        const entry = resolveNodeKnowledge(node, data);
+        if (entry && !items.has(entry.id)) items.set(entry.id, catalogKnowledgeItem(entry));
+        (node.children || []).forEach(visit);
+    };
+    visit(root);
+    return items.size > 0 ? Array.from(items.values()) : data.knowledge_used || [];
+};
+
+const linkKnowledge = (item: KnowledgeItem): KnowledgeItem => {
+    const entry = getCatalogEntry(item.catalog_id) || findCatalogEntry(item.name);
+    const { catalog_id, ...rest } = item;
+    return entry ? { ...rest, catalog_id: entry.id } : rest;
+};
+
+// Gắn id danh mục cho knowledge_used và cho method của từng node.
+// Id model tự ghi mà không có trong danh mục thì bỏ, tra lại theo tên.
+export const linkCatalog = (data: GeometryResponse): GeometryResponse => {
+    const knowledge_used = (data.knowledge_used || []).map(linkKnowledge);
+    const withKnowledge = { ...data, knowledge_used };
+
+    const linkNode = (node: LogicNode): LogicNode => {
+        const { catalog_id, ...rest } = node;
+        const entry = resolveNodeKnowledge(node, withKnowledge);
+        const linked: LogicNode = { ...rest, children: (node.children || []).map(linkNode) };
+        if (entry) linked.catalog_id = entry.id;
+        return linked;
+    };
+
+    return {
+        ...withKnowledge,
+        branches: (data.branches || []).map(b => b.pending ? b : { ...b, root: linkNode(b.root) })
+    };
+};
+
+// Danh sách rút gọn để đưa vào prompt (model ghi id thay vì tự diễn đạt lại tên)
+export const catalogPromptList = (maxGrade?: GradeLevel): string =>
+    THEOREM_CATALOG
+        .filter(e => !maxGrade || e.grade <= maxGrade)
+        .map(e => `${e.id}: ${e.name} (lớp ${e.grade})`)
+        .join('\n');
@@ -0,0 +1,83 @@
+import { GeometryResponse, AnalysisBranch, TutorMessage } from '../types';
+import { ModelProvider } from './modelProviders';
+import { runModelChain, extractJson, repairJsonString } from './geminiService';
+import { indexNodes, findPath, getPrerequisites } from './logicGraph';
+
+// Gia sư hỏi–đáp kiểu Socrates về MỘT node của sơ đồ: gửi kèm hướng giải,
+// đường đi từ kết luận tới node và lịch sử hội thoại; gia sư dẫn dắt bằng câu hỏi.
+
+export interface TutorChatRequest {
+    data: GeometryResponse;
+    branch: AnalysisBranch;
+    nodeId: string;
+    history: TutorMessage[]; // Câu hỏi mới nhất của học sinh nằm cuối
+}
+
+// Dấu hiệu nhận biết prompt hội thoại (dữ liệu mẫu offline dựa vào chuỗi này)
+export const TUTOR_PROMPT_MARKER = 'GIA SƯ SOCRATIC';
+
+const MAX_HISTORY = 12; // Chỉ gửi các lượt gần nhất cho gọn prompt
+
+export const buildTutorPrompt = ({ data, branch, nodeId, history }: TutorChatRequest): string => {
+    const index = indexNodes(branch.root);
+    const path = findPath(branch.root, nodeId);
+    const node = index.get(nodeId) || branch.root;
+    const premises = getPrerequisites(node, index);
+
+    const pathLines = path.map((n, i) => `    ${i + 1}. ${n.statement}${n.method ? ` (${n.method})` : ''}`).join('\n');
+    const chatLines = history.slice(-MAX_HISTORY)
+        .map(m => `    ${m.role === 'student' ? 'Học sinh' : 'Gia sư'}: ${m.text}`)
+        .join('\n');
+
+    return `
+    Bạn là ${TUTOR_PROMPT_MARKER} dạy hình học THCS theo SGK **"CHÂN TRỜI SÁNG TẠO"**${data.grade ? ` cho học sinh lớp ${data.grade}` : ''}.
+    Học sinh đang xem sơ đồ phân tích đi lên của bài toán và hỏi về MỘT bước cụ thể.
+
+    **BÀI TOÁN:**
+    - Giả thiết: ${(data.hypothesis || []).join('; ')}
+    - Kết luận: ${data.conclusion}
+    - Hướng giải: ${branch.name}${branch.explanation ? ` — ${branch.explanation}` : ''}
+
+    **ĐƯỜNG ĐI TRONG SƠ ĐỒ (từ kết luận tới bước đang hỏi):**
+${pathLines}
+
+    **BƯỚC ĐANG HỎI:** ${node.statement}
+    - Căn cứ: ${node.method || '(chưa ghi)'}
+    - Lý do: ${node.reason || '(chưa ghi)'}
+    - Cần có: ${premises.length ? premises.map(p => p.statement).join('; ') : '(đây là giả thiết / điều đã biết)'}
+
+    **HỘI THOẠI:**
+${chatLines}
+
+    **NGUYÊN TẮC:**
+    1. Dẫn dắt bằng câu hỏi gợi mở. **KHÔNG** đưa ra lời giải hoàn chỉnh, không nói thẳng đáp án của bước này.
+    2. Mỗi lượt tối đa 4 câu ngắn, kết thúc bằng MỘT câu hỏi để học sinh tự nghĩ tiếp.
+    3. Học sinh trả lời đúng thì khen ngắn gọn rồi hỏi tiếp; sai thì chỉ ra chỗ chưa ổn bằng một câu hỏi, không sửa hộ.
+    4. Chỉ dùng kiến thức trong SGK${data.grade ? ` đến lớp ${data.grade}` : ''}. Công thức viết LaTeX trong $...$, góc dùng \`\\widehat{ABC}\`.
+
+    Trả về JSON thuần: {"reply": "câu trả lời của gia sư"}
+    `;
+};
+
+// Câu trả lời JSON {"reply": ...}; model trả văn bản thường thì dùng nguyên văn
+export const parseTutorReply = (text: string): string => {
+    const json = extractJson(text);
+    for (const candidate of [json, repairJsonString(json)]) {
+        try {
+            const reply = JSON.parse(candidate)?.reply;
+            if (typeof reply === 'string' && reply.trim()) return reply.trim();
+        } catch (e) {
+            // Thử tiếp bản đã sửa dấu "\"
+        }
+    }
+    if (!text.trim() || text.trim().startsWith('{')) throw new Error("Gia sư không trả lời được câu hỏi này.");
+    return text.trim();
+};
+
+export const askTutor = (provider: ModelProvider, request: TutorChatRequest, signal?: AbortSignal): Promise<string> => {
+    const prompt = buildTutorPrompt(request);
+    return runModelChain(provider, async (modelId, attemptSignal) =>
+        parseTutorReply(await provider.generate({ prompt, images: [], signal: attemptSignal }, modelId)),
+        { signal }
+    );
+};
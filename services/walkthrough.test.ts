@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { buildWalkthrough } from './walkthrough';
+import { LogicNode, AnalysisType } from '../types';
+
+// n1 dùng lại n3 (refs) nhưng n3 nằm ở nhánh sau của cây
+const root: LogicNode = {
+    id: 'r1', type: AnalysisType.ROOT, statement: 'KL', reason: '',
+    children: [
+        { id: 'n1', type: AnalysisType.NODE, statement: 'A', reason: '', refs: ['n3'], children: [
+            { id: 'n2', type: AnalysisType.LEAF, statement: 'B', reason: '' }
+        ] },
+        { id: 'n3', type: AnalysisType.NODE, statement: 'C', reason: '', children: [
+            { id: 'n4', type: AnalysisType.LEAF, statement: 'D', reason: '' }
+        ] }
+    ]
+};
+
+describe('buildWalkthrough', () => {
+    it('narrates shared premises before the nodes that reuse them', () => {
+        const order = buildWalkthrough(root, 'synthesis').map(s => s.nodeId);
+        expect(order).toEqual(['n2', 'n4', 'n3', 'n1', 'r1']);
+    });
+
+    it('walks the tree top-down for the analysis order', () => {
+        expect(buildWalkthrough(root, 'analysis').map(s => s.nodeId)).toEqual(['r1', 'n1', 'n2', 'n3', 'n4']);
+    });
+});
@@ -0,0 +1,61 @@
+import { LogicNode, AnalysisType } from '../types';
+import { indexNodes, resolveRefs, getPrerequisites } from './logicGraph';
+
+// Trình chiếu sơ đồ từng bước:
+// - analysis (phân tích đi lên): mở từ KẾT LUẬN ra tới giả thiết, "để có A cần B".
+// - synthesis (tổng hợp): đi từ các giả thiết ngược về kết luận, "từ B suy ra A".
+
+export type WalkthroughOrder = 'analysis' | 'synthesis';
+
+export interface WalkthroughStep {
+    nodeId: string;
+    narration: string;
+}
+
+const withMethod = (node: LogicNode): string => node.method ? ` (${node.method})` : '';
+const withReason = (node: LogicNode): string => node.reason ? ` ${node.reason.trim().replace(/([^.!?])$/, '$1.')}` : '';
+
+const analysisNarration = (node: LogicNode, parent: LogicNode | undefined, index: Map<string, LogicNode>): string => {
+    if (!parent) return `Cần chứng minh: ${node.statement}.${withReason(node)}`;
+    const reused = resolveRefs(node, index);
+    const also = reused.length ? ` Bước này còn dùng lại: ${reused.map(r => r.statement).join('; ')}.` : '';
+    if (node.type === AnalysisType.LEAF || !node.children?.length) {
+        return `Để có ${parent.statement}, cần ${node.statement}: điều này đã có${withMethod(node)}.${withReason(node)}${also}`;
+    }
+    return `Để có ${parent.statement}, cần chứng minh ${node.statement}${withMethod(node)}.${withReason(node)}${also}`;
+};
+
+const synthesisNarration = (node: LogicNode, index: Map<string, LogicNode>): string => {
+    const premises = getPrerequisites(node, index);
+    if (premises.length === 0) return `Ta có ${node.statement}${withMethod(node)}.${withReason(node)}`;
+    const conclusion = node.type === AnalysisType.ROOT ? ' Đây chính là điều phải chứng minh.' : '';
+    return `Từ ${premises.map(p => p.statement).join('; ')} suy ra ${node.statement}${withMethod(node)}.${conclusion}`;
+};
+
+export const buildWalkthrough = (root: LogicNode, order: WalkthroughOrder): WalkthroughStep[] => {
+    const index = indexNodes(root);
+    const steps: WalkthroughStep[] = [];
+
+    if (order === 'analysis') {
+        // Duyệt trước theo cây: cha rồi mới tới con
+        const visit = (node: LogicNode, parent?: LogicNode) => {
+            if (!node) return;
+            steps.push({ nodeId: node.id, narration: analysisNarration(node, parent, index) });
+            node.children?.forEach(child => visit(child, node));
+        };
+        visit(root);
+        return steps;
+    }
+
+    // Tổng hợp: thứ tự topo trên toàn bộ tiền đề (con + refs), node chỉ được nói khi mọi tiền đề đã có.
+    // Đánh dấu ngay khi vào để refs trỏ ngược lên tổ tiên (sơ đồ lỗi) không lặp vô hạn.
+    const seen = new Set<string>();
+    const visit = (node: LogicNode) => {
+        if (!node || seen.has(node.id)) return;
+        seen.add(node.id);
+        getPrerequisites(node, index).forEach(visit);
+        steps.push({ nodeId: node.id, narration: synthesisNarration(node, index) });
+    };
+    visit(root);
+    return steps;
+};
@@ -5,10 +5,14 @@ export enum AnalysisType {
     LEAF = 'LEAF'  // Hypothesis or Known Axiom
 }
 
+// Lớp của học sinh: giới hạn kiến thức được dùng trong lời giải
+export type GradeLevel = 7 | 8 | 9;
+
 export interface KnowledgeItem {
     name: string;
     description: string;
     textbook_ref: string; // e.g., "Toán 8 - CTST - Trang 54"
+    catalog_id?: string;  // Id trong danh mục định lý SGK (services/theoremCatalog.ts)
 }
 
 export interface LogicNode {
@@ -18,7 +22,19 @@ export interface LogicNode {
     reason: string;    // "Để có điều này, ta cần..." or "Theo giả thiết..."
     type: AnalysisType;
     children?: LogicNode[]; // Prerequisites
+    refs?: string[];        // Id của các node đã có trong cùng hướng giải, dùng lại làm tiền đề (sơ đồ dạng DAG)
     isProven?: boolean; // If it connects to hypothesis
+    catalog_id?: string;    // Định lý / định nghĩa SGK ứng với method
+}
+
+// Nguồn gốc của một node LEAF: giả thiết, kiến thức SGK, nhìn từ hình vẽ, hoặc chưa có căn cứ
+export type LeafGrounding = 'given' | 'textbook' | 'figure' | 'ungrounded';
+
+// Một bước của lời giải xuôi, gắn với node trên sơ đồ mà bước đó chứng minh được
+export interface ProofStep {
+    statement: string;      // "$AB = AC$"
+    justification: string;  // "do $\\triangle ABC$ cân tại $A$"
+    node_id?: string;       // Id LogicNode trong cùng hướng giải
 }
 
 export interface AnalysisBranch {
@@ -28,6 +44,58 @@ export interface AnalysisBranch {
     explanation: string; // Tại sao chọn cách này? Tại sao nó bế tắc?
     root: LogicNode; // The tree for this specific approach
     forward_proof: string; // NEW LOCATION: Specific proof text for this branch
+    proof_steps?: ProofStep[]; // Lời giải dạng từng bước (kết quả cũ chỉ có forward_proof)
+    pending?: boolean; // Đang stream: hướng giải chưa nhận đủ dữ liệu (chỉ hiển thị placeholder)
+    grounding?: Record<string, LeafGrounding>; // Phân loại từng LEAF theo id (tính lại sau khi parse)
+    reported_status?: 'success' | 'failure' | 'partial'; // Trạng thái model tự báo, trước khi tính lại
+}
+
+// --- Hình vẽ của bài toán (tọa độ tùy ý, trục y hướng lên) ---
+export interface FigurePoint {
+    name: string; // "A", "M", "H1", "A'"
+    x: number;
+    y: number;
+}
+
+export interface FigureSegment {
+    from: string;
+    to: string;
+    dashed?: boolean; // Đường phụ / đường kẻ thêm
+}
+
+export interface FigureCircle {
+    center: string;
+    radius?: number;  // Bán kính theo cùng đơn vị với tọa độ
+    through?: string; // Hoặc: đường tròn đi qua điểm này
+}
+
+export interface FigureAngle {
+    vertex: string;
+    from: string;
+    to: string;
+    marks?: number;  // Số cung (các góc bằng nhau có cùng số cung)
+    right?: boolean; // Góc vuông: vẽ ô vuông thay cho cung
+}
+
+// Ký hiệu đoạn thẳng bằng nhau (số gạch)
+export interface FigureEqualMark {
+    from: string;
+    to: string;
+    marks: number;
+}
+
+export interface GeometryFigure {
+    points: FigurePoint[];
+    segments: FigureSegment[];
+    circles: FigureCircle[];
+    angles: FigureAngle[];
+    equal_marks: FigureEqualMark[];
+}
+
+// Một lỗi dữ liệu phát hiện khi kiểm tra JSON của model, kèm đường dẫn tới trường bị sửa
+export interface ValidationIssue {
+    path: string;    // e.g. "branches[1].root.children[2].type"
+    message: string; // Mô tả ngắn điều đã sửa
 }
 
 export interface GeometryResponse {
@@ -35,9 +103,15 @@ export interface GeometryResponse {
     conclusion: string;
     branches: AnalysisBranch[]; // Multiple approaches
     knowledge_used: KnowledgeItem[];
-    
-    // Deprecated fields kept for type safety during migration if needed
-    forward_proof?: string; 
-    reverse_analysis_tree?: LogicNode; 
-    optimal_path_summary?: string[];
+    figure?: GeometryFigure; // Hình vẽ dựng lại từ đề bài (có thể thiếu)
+    diagnostics?: ValidationIssue[]; // Các trường đã được sửa tự động khi parse
+    grade?: GradeLevel; // Lớp đã chọn khi phân tích (không có = chưa chọn)
+    // Dạng một cây cũ (reverse_analysis_tree, forward_proof, optimal_path_summary) được chuyển
+    // thành branches khi parse / nhập tệp, xem services/geosolverFile.ts
+}
+
+// Một lượt trong hội thoại với gia sư về một node của sơ đồ
+export interface TutorMessage {
+    role: 'student' | 'tutor';
+    text: string;
 }